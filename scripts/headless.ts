@@ -0,0 +1,118 @@
+// Command-line front end for the headless runner (src/core/headless.ts).
+//
+//   pnpm headless --algorithm hmc --distribution bimodal --iterations 5000 \
+//     --seed 42 --chains 4 --burn-in 500 --param epsilon=0.2 --out runs/hmc_bimodal
+//
+// Writes <out>.json (metadata and diagnostics) and <out>.csv (chain,iteration,x,y).
+// Without --out the JSON is printed to stdout.
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { ALGORITHMS, type AlgorithmType } from '../src/algorithms';
+import { DISTRIBUTIONS, type DistributionType } from '../src/distributions';
+import { randomSeed } from '../src/core/random';
+import { runHeadless, resultToCSV, resultToJSON, type ParameterValue } from '../src/core/headless';
+
+const USAGE = `Usage: pnpm headless --algorithm <key> --distribution <key> [options]
+
+Options:
+  --iterations <n>      Iterations per chain (default 1000)
+  --seed <n>            PRNG seed (default: random, reported in the output)
+  --chains <n>          Number of chains (default 1)
+  --burn-in <n>         Iterations excluded from the diagnostics (default 0)
+  --start <x,y>         Start position of chain 0
+  --param <key=value>   Algorithm parameter, repeatable
+  --out <prefix>        Write <prefix>.json and <prefix>.csv instead of printing JSON
+  --samples             Include the samples in the JSON output
+
+Algorithms:    ${ALGORITHMS.map(a => a.key).join(', ')}
+Distributions: ${DISTRIBUTIONS.map(d => d.key).join(', ')}`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function parseNumber(flag: string, value: string | undefined): number {
+  const n = Number(value);
+  if (value === undefined || !Number.isFinite(n)) fail(`${flag} expects a number`);
+  return n;
+}
+
+function parseValue(value: string): ParameterValue {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  const n = Number(value);
+  return value !== '' && Number.isFinite(n) ? n : value;
+}
+
+const args = process.argv.slice(2);
+let algorithm: string | undefined;
+let distribution: string | undefined;
+let iterations = 1000;
+let seed = randomSeed();
+let chains = 1;
+let burnIn = 0;
+let start: { x: number; y: number } | undefined;
+let out: string | undefined;
+let includeSamples = false;
+const params: Record<string, ParameterValue> = {};
+
+for (let i = 0; i < args.length; i++) {
+  const flag = args[i];
+  switch (flag) {
+    case '--algorithm': algorithm = args[++i]; break;
+    case '--distribution': distribution = args[++i]; break;
+    case '--iterations': iterations = parseNumber(flag, args[++i]); break;
+    case '--seed': seed = parseNumber(flag, args[++i]); break;
+    case '--chains': chains = parseNumber(flag, args[++i]); break;
+    case '--burn-in': burnIn = parseNumber(flag, args[++i]); break;
+    case '--start': {
+      const [x, y] = (args[++i] ?? '').split(',').map(Number);
+      if (!Number.isFinite(x) || !Number.isFinite(y)) fail('--start expects x,y');
+      start = { x, y };
+      break;
+    }
+    case '--param': {
+      const [key, ...rest] = (args[++i] ?? '').split('=');
+      if (!key || rest.length === 0) fail('--param expects key=value');
+      params[key] = parseValue(rest.join('='));
+      break;
+    }
+    case '--out': out = args[++i]; break;
+    case '--samples': includeSamples = true; break;
+    case '--help':
+    case '-h':
+      console.log(USAGE);
+      process.exit(0);
+    default:
+      fail(`Unknown option: ${flag}`);
+  }
+}
+
+if (!algorithm || !ALGORITHMS.some(a => a.key === algorithm)) fail(`Unknown algorithm: ${algorithm ?? '(none)'}`);
+if (!distribution || !DISTRIBUTIONS.some(d => d.key === distribution)) fail(`Unknown distribution: ${distribution ?? '(none)'}`);
+
+let result;
+try {
+  result = runHeadless({
+    algorithm: algorithm as AlgorithmType,
+    distribution: distribution as DistributionType,
+    iterations,
+    seed,
+    chains,
+    burnIn,
+    start,
+    params,
+  });
+} catch (error) {
+  fail((error as Error).message);
+}
+
+if (out) {
+  mkdirSync(dirname(out), { recursive: true });
+  writeFileSync(`${out}.json`, resultToJSON(result, includeSamples));
+  writeFileSync(`${out}.csv`, resultToCSV(result));
+  console.error(`Wrote ${out}.json and ${out}.csv (seed ${result.seed})`);
+} else {
+  process.stdout.write(resultToJSON(result, includeSamples));
+}
@@ -4,9 +4,11 @@ import { ControlPanel } from './components/ControlPanel';
 import { InfoPanel } from './components/InfoPanel';
 import { MarginalHistograms } from './components/MarginalHistograms';
 import { HeatmapPanel } from './components/HeatmapPanel';
+import { TracePlot } from './components/TracePlot';
+import { AutocorrelationPanel } from './components/AutocorrelationPanel';
+import { TimelineScrubber } from './components/TimelineScrubber';
 import { Simulation } from './core/Simulation';
 import { MultimodalDistribution } from './distributions/MultimodalDistribution';
-import { createAlgorithm } from './algorithms';
 
 function App() {
   const [simulation] = useState(() => {
@@ -17,8 +19,7 @@ function App() {
     sim.setDistribution(distribution);
 
     // Initialize with Hamiltonian Monte Carlo algorithm
-    const algorithm = createAlgorithm('hmc');
-    sim.setAlgorithm(algorithm);
+    sim.setAlgorithm('hmc');
     sim.delay = 900; // Slower default for HMC to see trajectory animation
 
     // Hide heatmap on mobile by default
@@ -89,11 +90,25 @@ function App() {
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Keys typed into a text field (e.g. the custom density expression) are not shortcuts
+      const target = e.target;
+      if (
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLElement && target.isContentEditable)
+      ) {
+        return;
+      }
+
       if (e.code === 'Space') {
         e.preventDefault();
         simulation.toggle();
       } else if (e.code === 'KeyN') {
         simulation.step();
+      } else if (e.code === 'ArrowLeft') {
+        simulation.stepBack();
+      } else if (e.code === 'ArrowRight') {
+        simulation.stepForward();
       } else if (e.code === 'KeyR') {
         simulation.visualizer.autoRotate = !simulation.visualizer.autoRotate;
       } else if (e.code === 'KeyC' && e.shiftKey) {
@@ -115,16 +130,33 @@ function App() {
   // Get acceptance rate from algorithm
   const acceptanceRate = simulation.algorithm?.getAcceptanceRate?.() || 0;
 
+  // Statistics panels pool every chain; burn-in applies to each chain
+  const numChains = simulation.chains.length || 1;
+  const combinedSamples = simulation.getCombinedSamples();
+  const combinedBurnIn = simulation.visualizer.burnIn * numChains;
+
+  // ACF/ESS of chain 0 (throttled inside Simulation)
+  const diagnostics = simulation.getChainDiagnostics();
+  const samplingSeconds = simulation.samplingTime / 1000;
+
   return (
     <>
       <Scene simulation={simulation} />
       <ControlPanel simulation={simulation} collapsed={controlPanelCollapsed} />
       <InfoPanel
         algorithm={simulation.algorithm}
-        samples={simulation.visualizer.allSamples.length}
+        samples={combinedSamples.length}
         acceptanceRate={acceptanceRate}
+        rHat={simulation.computeRHat()}
+        ess={diagnostics ? { x: diagnostics.essX, y: diagnostics.essY } : null}
+        samplingSeconds={samplingSeconds}
+        divergences={simulation.getDivergenceCount()}
+        warmupDivergences={simulation.getWarmupDivergenceCount()}
+        tempering={simulation.algorithm?.getTempering?.() ?? null}
+        particleESS={simulation.visualizer.particles ? simulation.visualizer.particleESS : undefined}
+        particleCount={simulation.visualizer.particles?.length ?? 0}
       />
-      {(simulation.visualizer.showHeatmap || simulation.visualizer.showHistogram) && (
+      {(simulation.visualizer.showHeatmap || simulation.visualizer.showHistogram || simulation.visualizer.showTrace || simulation.visualizer.showAutocorrelation) && (
         <div
           style={{
             position: 'absolute',
@@ -138,22 +170,39 @@ function App() {
         >
           {simulation.visualizer.showHeatmap && (
             <HeatmapPanel
-              samples={simulation.visualizer.allSamples}
-              sampleCount={simulation.visualizer.allSamples.length}
+              samples={combinedSamples}
+              sampleCount={combinedSamples.length}
               distribution={simulation.distribution!}
               bins={simulation.visualizer.histogramBins}
               colorScheme={simulation.visualizer.colorScheme}
               scale={panelScale}
-              burnIn={simulation.visualizer.burnIn}
+              burnIn={combinedBurnIn}
               excludeBurnIn={simulation.visualizer.excludeBurnIn}
             />
           )}
           {simulation.visualizer.showHistogram && (
             <MarginalHistograms
+              samples={combinedSamples}
+              sampleCount={combinedSamples.length}
+              distribution={simulation.distribution!}
+              bins={simulation.visualizer.histogramBins}
+              scale={panelScale}
+              burnIn={combinedBurnIn}
+              excludeBurnIn={simulation.visualizer.excludeBurnIn}
+            />
+          )}
+          {simulation.visualizer.showAutocorrelation && (
+            <AutocorrelationPanel
+              diagnostics={diagnostics}
+              labels={simulation.distribution?.labels}
+              scale={panelScale}
+            />
+          )}
+          {simulation.visualizer.showTrace && (
+            <TracePlot
               samples={simulation.visualizer.allSamples}
               sampleCount={simulation.visualizer.allSamples.length}
               distribution={simulation.distribution!}
-              bins={simulation.visualizer.histogramBins}
               scale={panelScale}
               burnIn={simulation.visualizer.burnIn}
               excludeBurnIn={simulation.visualizer.excludeBurnIn}
@@ -161,6 +210,14 @@ function App() {
           )}
         </div>
       )}
+      <TimelineScrubber
+        historyLength={simulation.historyLength}
+        replayIndex={simulation.replayIndex}
+        iteration={Math.max(0, simulation.visualizer.allSamples.length - 1)}
+        onScrub={(index) => simulation.scrubTo(index)}
+        onStepBack={() => simulation.stepBack()}
+        onStepForward={() => simulation.stepForward()}
+      />
       <footer
         style={{
           position: 'absolute',
@@ -0,0 +1,125 @@
+import type { MCMCAlgorithm } from './MCMCAlgorithm';
+import type { Distribution } from '../distributions/Distribution';
+import type { Visualizer } from '../core/Visualizer';
+import { cholesky2, type Matrix2, type Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+import { CovarianceEstimator } from './adaptation';
+import '../core/utils'; // Import to extend Array prototype
+
+// Optimal random-walk scaling 2.38²/d (Gelman, Roberts & Gilks, 1996) for d = 2
+const SCALE = (2.38 * 2.38) / 2;
+
+// Adaptive Metropolis (Haario, Saksman & Tamminen, 2001): a random walk whose Gaussian
+// proposal is the empirical covariance of the chain so far, scaled by 2.38²/d. The
+// first adaptStart iterations use a fixed isotropic proposal N(x, σ²I).
+export class AdaptiveMetropolis implements MCMCAlgorithm {
+  name = 'Adaptive Metropolis';
+  description = 'Random walk whose Gaussian proposal learns the covariance of the chain';
+  parameters = ['sigma', 'adaptStart', 'adapt', 'regularization'];
+
+  // Algorithm parameters
+  sigma: number = 0.5;          // Initial isotropic step size
+  adaptStart: number = 100;     // Iterations before the proposal starts adapting
+  adapt: boolean = true;        // When off, the last learned proposal is kept fixed
+  regularization: number = 1e-6; // Added to the diagonal so the proposal stays non-singular
+
+  // State
+  private chain: Vector2[] = [];
+  private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
+  private acceptCount: number = 0;
+  private totalSteps: number = 0;
+  private history = new CovarianceEstimator();
+  private learned: Matrix2 | null = null;
+
+  setDistribution(distribution: Distribution): void {
+    this.distribution = distribution;
+  }
+
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
+  init(): void {
+    this.sigma = 0.5;
+    this.adaptStart = 100;
+    this.adapt = true;
+  }
+
+  reset(initialPosition?: Vector2): void {
+    const startPos = initialPosition || { x: 0, y: 0 };
+    this.chain = [startPos];
+    this.acceptCount = 0;
+    this.totalSteps = 0;
+    this.history.reset();
+    this.history.add(startPos);
+    this.learned = null;
+  }
+
+  // Proposal covariance for the next step: σ²I until adaptation starts, then
+  // 2.38²/d · (Cov(chain) + εI)
+  getProposalCovariance(): Matrix2 {
+    return this.learned ?? { xx: this.sigma * this.sigma, xy: 0, yy: this.sigma * this.sigma };
+  }
+
+  step(visualizer: Visualizer): void {
+    if (!this.distribution || this.chain.length === 0) return;
+
+    const current = this.chain[this.chain.length - 1];
+
+    if (this.adapt && this.totalSteps >= this.adaptStart) {
+      const cov = this.history.covariance();
+      this.learned = {
+        xx: SCALE * (cov.xx + this.regularization),
+        xy: SCALE * cov.xy,
+        yy: SCALE * (cov.yy + this.regularization),
+      };
+    }
+    const covariance = this.getProposalCovariance();
+
+    // Propose new state: x' ~ N(x, C) with C = L Lᵀ
+    const { l11, l21, l22 } = cholesky2(covariance);
+    const z1 = this.rng.normal();
+    const z2 = this.rng.normal();
+    const proposal: Vector2 = {
+      x: current.x + l11 * z1,
+      y: current.y + l21 * z1 + l22 * z2,
+    };
+
+    visualizer.queue.push({
+      type: 'proposal',
+      from: current,
+      to: proposal,
+      radius: Math.sqrt((covariance.xx + covariance.yy) / 2),
+      covariance,
+    });
+
+    // The proposal is symmetric, so α = min(1, P(x')/P(x)) as in random walk MH
+    const logAlpha =
+      this.distribution.logDensity(proposal) -
+      this.distribution.logDensity(current);
+
+    const accept = Math.log(this.rng.uniform()) < logAlpha;
+
+    if (accept) {
+      this.chain.push(proposal);
+      this.acceptCount++;
+      visualizer.queue.push({ type: 'accept', position: proposal });
+    } else {
+      this.chain.push(current);
+      visualizer.queue.push({ type: 'reject', position: proposal });
+    }
+
+    this.history.add(this.chain[this.chain.length - 1]);
+    this.totalSteps++;
+  }
+
+  getAcceptanceRate(): number {
+    if (this.totalSteps === 0) return 0;
+    return this.acceptCount / this.totalSteps;
+  }
+
+  getChain(): Vector2[] {
+    return this.chain;
+  }
+}
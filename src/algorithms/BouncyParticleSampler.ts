@@ -0,0 +1,146 @@
+import type { MCMCAlgorithm } from './MCMCAlgorithm';
+import type { Distribution } from '../distributions/Distribution';
+import type { Visualizer } from '../core/Visualizer';
+import { vectorDot, type Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+import { gradientsAlong, rateBound, type SkeletonPoint } from './pdmp';
+import '../core/utils'; // Import to extend Array prototype
+
+// Bouncy particle sampler (Bouchard-Côté, Vollmer & Doucet, 2018). The particle moves
+// in a straight line and bounces off the level sets of log π with rate
+// λ(t) = max(0, -⟨v, ∇log π(x + v t)⟩): the velocity is reflected in the hyperplane
+// orthogonal to the gradient. Refreshments at a constant rate redraw v ~ N(0, I) and
+// make the process ergodic. Each iteration runs the process for a fixed time and
+// records the end position, so the chain is the path discretized at equal times.
+export class BouncyParticleSampler implements MCMCAlgorithm {
+  name = 'Bouncy Particle Sampler';
+  description = 'Continuous-time sampler moving in straight lines and bouncing off the level sets of the target';
+  parameters = ['duration', 'refreshRate', 'boundHorizon'];
+
+  // Algorithm parameters
+  duration: number = 1;       // Process time per iteration (spacing of the discretized samples)
+  refreshRate: number = 1;    // Rate of velocity refreshments
+  boundHorizon: number = 0.5; // Length of the windows over which event rates are bounded
+
+  // State
+  private chain: Vector2[] = [];
+  private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
+  private velocity: Vector2 | null = null;
+  private time: number = 0;
+  private skeleton: SkeletonPoint[] = [];
+  private eventCount: number = 0;
+  private boundViolations: number = 0;
+  private totalSteps: number = 0;
+
+  setDistribution(distribution: Distribution): void {
+    this.distribution = distribution;
+  }
+
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
+  init(): void {
+    this.duration = 1;
+    this.refreshRate = 1;
+    this.boundHorizon = 0.5;
+  }
+
+  reset(initialPosition?: Vector2): void {
+    const startPos = initialPosition || { x: 0, y: 0 };
+    this.chain = [startPos];
+    this.velocity = null;
+    this.time = 0;
+    this.skeleton = [];
+    this.eventCount = 0;
+    this.boundViolations = 0;
+    this.totalSteps = 0;
+  }
+
+  private sampleVelocity(): Vector2 {
+    return { x: this.rng.normal(), y: this.rng.normal() };
+  }
+
+  step(visualizer: Visualizer): void {
+    if (!this.distribution || this.chain.length === 0) return;
+
+    let x = this.chain[this.chain.length - 1];
+    if (!this.velocity) {
+      this.velocity = this.sampleVelocity();
+      this.skeleton.push({ time: 0, position: x, velocity: this.velocity, kind: 'start' });
+    }
+    let v = this.velocity;
+    const initialVelocity = v;
+    const path: Vector2[] = [x];
+    let remaining = this.duration;
+
+    while (remaining > 0) {
+      // Bound the bounce rate over the next window, then race it against a refreshment
+      const horizon = Math.min(this.boundHorizon, remaining);
+      const rates = gradientsAlong(this.distribution, x, v, horizon).map(g => Math.max(0, -vectorDot(v, g)));
+      const bound = rateBound(rates);
+      const tBounce = this.rng.exponential() / bound;
+      const tRefresh = this.refreshRate > 0 ? this.rng.exponential() / this.refreshRate : Infinity;
+      const t = Math.min(tBounce, tRefresh, horizon);
+
+      x = { x: x.x + v.x * t, y: x.y + v.y * t };
+      this.time += t;
+      remaining -= t;
+      if (t === horizon) continue;  // No event in this window
+
+      if (tRefresh < tBounce) {
+        v = this.sampleVelocity();
+        this.recordEvent(x, v, 'refresh', visualizer);
+        path.push(x);
+        continue;
+      }
+
+      // Thinning: keep the candidate with probability λ(t) / Λ
+      const g = this.distribution.gradient(x);
+      const rate = Math.max(0, -vectorDot(v, g));
+      if (rate > bound) this.boundViolations++;
+      if (this.rng.uniform() * bound < rate) {
+        // Reflect v in the hyperplane orthogonal to the gradient
+        const scale = (2 * vectorDot(v, g)) / vectorDot(g, g);
+        v = { x: v.x - scale * g.x, y: v.y - scale * g.y };
+        this.recordEvent(x, v, 'bounce', visualizer);
+        path.push(x);
+      }
+    }
+
+    path.push(x);
+    this.velocity = v;
+
+    visualizer.queue.push({ type: 'trajectory', path, momentum: initialVelocity });
+    this.chain.push(x);
+    visualizer.queue.push({ type: 'accept', position: x });
+    this.totalSteps++;
+  }
+
+  private recordEvent(position: Vector2, velocity: Vector2, kind: 'bounce' | 'refresh', visualizer: Visualizer): void {
+    this.skeleton.push({ time: this.time, position, velocity, kind });
+    this.eventCount++;
+    visualizer.queue.push({ type: 'bounce', position, kind });
+  }
+
+  // Event-time skeleton of the whole run: the start plus every bounce and refreshment
+  getSkeleton(): SkeletonPoint[] {
+    return this.skeleton;
+  }
+
+  // Mean number of events (bounces and refreshments) per iteration
+  getEventsPerStep(): number {
+    if (this.totalSteps === 0) return 0;
+    return this.eventCount / this.totalSteps;
+  }
+
+  // Thinning candidates whose true rate exceeded the local bound
+  getBoundViolations(): number {
+    return this.boundViolations;
+  }
+
+  getChain(): Vector2[] {
+    return this.chain;
+  }
+}
@@ -0,0 +1,134 @@
+import type { MCMCAlgorithm } from './MCMCAlgorithm';
+import type { Distribution } from '../distributions/Distribution';
+import type { Visualizer } from '../core/Visualizer';
+import type { Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+import '../core/utils'; // Import to extend Array prototype
+
+// Delayed-rejection Metropolis (Tierney & Mira, 1999; Mira, 2001). A rejected
+// proposal y₁ ~ N(x, σ²I) is followed by a second try y₂ ~ N(x, (sσ)²I) at a smaller
+// scale, accepted with
+//   α₂ = min(1, π(y₂) q₁(y₂, y₁) (1 - α₁(y₂, y₁)) / (π(x) q₁(x, y₁) (1 - α₁(x, y₁))))
+// which keeps detailed balance. A bold first stage explores, the cautious second
+// stage rescues the steps it would have wasted.
+export class DelayedRejectionMH implements MCMCAlgorithm {
+  name = 'Delayed Rejection Metropolis';
+  description = 'Random walk that retries with a smaller Gaussian step after a rejection';
+  parameters = ['sigma', 'secondScale'];
+
+  // Algorithm parameters
+  sigma: number = 1.5;
+  secondScale: number = 0.2;  // Second-stage σ as a fraction of the first
+
+  // State
+  private chain: Vector2[] = [];
+  private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
+  private acceptCount: number = 0;
+  private totalSteps: number = 0;
+  private secondStageCount: number = 0;
+  private secondStageAccepts: number = 0;
+
+  setDistribution(distribution: Distribution): void {
+    this.distribution = distribution;
+  }
+
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
+  init(): void {
+    this.sigma = 1.5;
+    this.secondScale = 0.2;
+  }
+
+  reset(initialPosition?: Vector2): void {
+    const startPos = initialPosition || { x: 0, y: 0 };
+    this.chain = [startPos];
+    this.acceptCount = 0;
+    this.totalSteps = 0;
+    this.secondStageCount = 0;
+    this.secondStageAccepts = 0;
+  }
+
+  step(visualizer: Visualizer): void {
+    if (!this.distribution || this.chain.length === 0) return;
+
+    const current = this.chain[this.chain.length - 1];
+    const logCurrent = this.distribution.logDensity(current);
+
+    // Stage 1: x' ~ N(x, σ²I), accepted with min(1, π(y₁)/π(x))
+    const first: Vector2 = {
+      x: current.x + this.rng.normal() * this.sigma,
+      y: current.y + this.rng.normal() * this.sigma,
+    };
+    visualizer.queue.push({
+      type: 'proposal',
+      from: current,
+      to: first,
+      radius: this.sigma,
+    });
+
+    const logFirst = this.distribution.logDensity(first);
+    const logAlpha1 = logFirst - logCurrent;
+    if (Math.log(this.rng.uniform()) < logAlpha1) {
+      this.chain.push(first);
+      this.acceptCount++;
+      visualizer.queue.push({ type: 'accept', position: first });
+      this.totalSteps++;
+      return;
+    }
+
+    // Stage 2: a smaller step from the same state
+    const sigma2 = this.secondScale * this.sigma;
+    const second: Vector2 = {
+      x: current.x + this.rng.normal() * sigma2,
+      y: current.y + this.rng.normal() * sigma2,
+    };
+    visualizer.queue.push({
+      type: 'delayedProposal',
+      from: current,
+      rejected: first,
+      to: second,
+      radius: sigma2,
+    });
+
+    const logSecond = this.distribution.logDensity(second);
+    // α₁(y₂, y₁) is the first-stage acceptance of the reverse path through y₁
+    const alpha1Current = Math.min(1, Math.exp(logAlpha1));
+    const alpha1Reverse = Math.min(1, Math.exp(logFirst - logSecond));
+    // log q₁(y₂, y₁) - log q₁(x, y₁) for the stage-1 Gaussian
+    const dist2 = (a: Vector2, b: Vector2) => (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+    const logQRatio = (dist2(current, first) - dist2(second, first)) / (2 * this.sigma * this.sigma);
+    const logAlpha2 =
+      logSecond - logCurrent + logQRatio + Math.log(1 - alpha1Reverse) - Math.log(1 - alpha1Current);
+
+    this.secondStageCount++;
+    if (Math.log(this.rng.uniform()) < logAlpha2) {
+      this.chain.push(second);
+      this.acceptCount++;
+      this.secondStageAccepts++;
+      visualizer.queue.push({ type: 'accept', position: second });
+    } else {
+      this.chain.push(current);
+      visualizer.queue.push({ type: 'reject', position: second });
+    }
+
+    this.totalSteps++;
+  }
+
+  getAcceptanceRate(): number {
+    if (this.totalSteps === 0) return 0;
+    return this.acceptCount / this.totalSteps;
+  }
+
+  // Fraction of second-stage proposals accepted
+  getSecondStageAcceptanceRate(): number {
+    if (this.secondStageCount === 0) return 0;
+    return this.secondStageAccepts / this.secondStageCount;
+  }
+
+  getChain(): Vector2[] {
+    return this.chain;
+  }
+}
@@ -0,0 +1,183 @@
+import type { MCMCAlgorithm } from './MCMCAlgorithm';
+import type { Distribution } from '../distributions/Distribution';
+import type { Visualizer } from '../core/Visualizer';
+import { vectorDot, type Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+import '../core/utils'; // Import to extend Array prototype
+
+// Differential evolution MCMC (ter Braak, 2006) with snooker updates (ter Braak & Vrugt,
+// 2008). A population of chains proposes x* = x_i + γ (x_r1 - x_r2) + e from the
+// difference of two other chains and a small jitter e, so proposals take the scale
+// and orientation of the population. A snooker update instead moves along the line
+// through x_i and a third chain z, by γ times the difference of the donors projected
+// onto that line.
+export class DifferentialEvolutionMC implements MCMCAlgorithm {
+  name = 'Differential Evolution MC';
+  description = 'Population sampler proposing moves along the difference of two other chains';
+  parameters = ['numChains', 'gamma', 'jitter', 'snookerProbability', 'modeJumpInterval'];
+
+  // Algorithm parameters
+  numChains: number = 8;          // Population size (at least 4 for snooker updates)
+  gamma: number = 2.38 / 2;       // Difference scale γ, 2.38/√(2d) for d = 2
+  jitter: number = 0.01;          // Standard deviation of the jitter e
+  snookerProbability: number = 0.1;
+  modeJumpInterval: number = 10;  // Every n-th iteration uses γ = 1 to jump between modes
+
+  // State
+  private chain: Vector2[] = [];
+  private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
+  private population: Vector2[] = [];
+  private acceptCount: number = 0;
+  private proposalCount: number = 0;
+  private totalSteps: number = 0;
+
+  setDistribution(distribution: Distribution): void {
+    this.distribution = distribution;
+  }
+
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
+  init(): void {
+    this.numChains = 8;
+    this.gamma = 2.38 / 2;
+    this.jitter = 0.01;
+    this.snookerProbability = 0.1;
+    this.modeJumpInterval = 10;
+  }
+
+  reset(initialPosition?: Vector2): void {
+    const startPos = initialPosition || { x: 0, y: 0 };
+    this.chain = [startPos];
+    this.population = [];
+    this.acceptCount = 0;
+    this.proposalCount = 0;
+    this.totalSteps = 0;
+  }
+
+  // Keep the population in sync with numChains (it can change while running). The
+  // differences only span the target once the chains are spread out, so new chains
+  // start overdispersed: uniform over the plotted bounds.
+  private syncPopulation(count: number): void {
+    if (!this.distribution) return;
+    const tracked = this.chain[this.chain.length - 1];
+    const { xMin, xMax, yMin, yMax } = this.distribution.bounds;
+    if (this.population.length === 0) {
+      this.population = [tracked];
+    }
+    this.population[0] = tracked;
+    while (this.population.length < count) {
+      this.population.push({
+        x: xMin + (xMax - xMin) * this.rng.uniform(),
+        y: yMin + (yMax - yMin) * this.rng.uniform(),
+      });
+    }
+    if (this.population.length > count) {
+      this.population.length = count;
+    }
+  }
+
+  // k distinct indices from 0..n-1, all different from exclude
+  private pickOthers(n: number, exclude: number, k: number): number[] {
+    const picked: number[] = [];
+    while (picked.length < k) {
+      const j = this.rng.int(n);
+      if (j !== exclude && !picked.includes(j)) picked.push(j);
+    }
+    return picked;
+  }
+
+  step(visualizer: Visualizer): void {
+    if (!this.distribution || this.chain.length === 0) return;
+
+    this.syncPopulation(Math.max(3, Math.round(this.numChains)));
+
+    const current = this.chain[this.chain.length - 1];
+    const n = this.population.length;
+    const modeJump = this.modeJumpInterval > 0 && (this.totalSteps + 1) % Math.round(this.modeJumpInterval) === 0;
+    let trackedProposal = current;
+
+    // Serial sweep over the population, each chain using the latest states of the others
+    for (let i = 0; i < n; i++) {
+      const x = this.population[i];
+      const snooker = n >= 4 && this.rng.uniform() < this.snookerProbability;
+      let proposal: Vector2;
+      let donors: [Vector2, Vector2];
+      let anchor: Vector2 | undefined;
+      // log of the extra acceptance factor; 0 for the symmetric parallel-direction move
+      let logCorrection = 0;
+
+      if (snooker) {
+        const [zi, r1, r2] = this.pickOthers(n, i, 3);
+        const z = this.population[zi];
+        const axis = { x: x.x - z.x, y: x.y - z.y };
+        const axisLength2 = vectorDot(axis, axis);
+        if (axisLength2 === 0) continue;
+        // Donors projected onto the line through x and z
+        const project = (p: Vector2) => {
+          const t = vectorDot({ x: p.x - z.x, y: p.y - z.y }, axis) / axisLength2;
+          return { x: z.x + t * axis.x, y: z.y + t * axis.y };
+        };
+        donors = [project(this.population[r1]), project(this.population[r2])];
+        anchor = z;
+        const gammaSnooker = 1.2 + this.rng.uniform();  // U(1.2, 2.2)
+        proposal = {
+          x: x.x + gammaSnooker * (donors[0].x - donors[1].x),
+          y: x.y + gammaSnooker * (donors[0].y - donors[1].y),
+        };
+        // (‖x* - z‖ / ‖x - z‖)^(d-1) with d = 2
+        logCorrection = Math.log(Math.hypot(proposal.x - z.x, proposal.y - z.y)) - 0.5 * Math.log(axisLength2);
+      } else {
+        const [r1, r2] = this.pickOthers(n, i, 2);
+        donors = [this.population[r1], this.population[r2]];
+        const gamma = modeJump ? 1 : this.gamma;
+        proposal = {
+          x: x.x + gamma * (donors[0].x - donors[1].x) + this.jitter * this.rng.normal(),
+          y: x.y + gamma * (donors[0].y - donors[1].y) + this.jitter * this.rng.normal(),
+        };
+      }
+
+      const logAlpha =
+        logCorrection +
+        this.distribution.logDensity(proposal) -
+        this.distribution.logDensity(x);
+      const accepted = Math.log(this.rng.uniform()) < logAlpha;
+
+      visualizer.queue.push({ type: 'differential', walker: i, from: x, to: proposal, donors, anchor, accepted });
+
+      this.proposalCount++;
+      if (accepted) {
+        this.population[i] = proposal;
+        this.acceptCount++;
+      }
+      if (i === 0) trackedProposal = proposal;
+    }
+
+    visualizer.queue.push({ type: 'proposal', from: current, to: trackedProposal });
+    visualizer.queue.push({ type: 'ensemble', positions: this.population.slice() });
+
+    // Chain 0 is the one we report; the others are drawn as the population
+    const next = this.population[0];
+    if (next !== current) {
+      this.chain.push(next);
+      visualizer.queue.push({ type: 'accept', position: next });
+    } else {
+      this.chain.push(current);
+      visualizer.queue.push({ type: 'reject', position: trackedProposal });
+    }
+
+    this.totalSteps++;
+  }
+
+  // Acceptance rate over the proposals of all chains
+  getAcceptanceRate(): number {
+    if (this.proposalCount === 0) return 0;
+    return this.acceptCount / this.proposalCount;
+  }
+
+  getChain(): Vector2[] {
+    return this.chain;
+  }
+}
@@ -0,0 +1,126 @@
+import type { MCMCAlgorithm } from './MCMCAlgorithm';
+import type { Distribution } from '../distributions/Distribution';
+import type { Visualizer } from '../core/Visualizer';
+import { cholesky2, type Matrix2, type Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+import { hasGaussianPrior, logGaussian } from '../distributions/GaussianPrior';
+
+// Elliptical slice sampling (Murray, Adams & MacKay, 2010) for p(x) ∝ N(x | μ, Σ) L(x):
+// draw ν from the prior, which fixes the ellipse μ + (x - μ) cos θ + ν sin θ through x,
+// and a likelihood level; then shrink an angle bracket around θ = 0 until a point on
+// the ellipse is above the level. There is no step size and nothing is rejected.
+export class EllipticalSliceSampler implements MCMCAlgorithm {
+  name = 'Elliptical Slice Sampler';
+  description = 'Moves along an ellipse drawn from the Gaussian prior, shrinking an angle bracket until the likelihood is high enough';
+  parameters: string[] = [];
+
+  private readonly maxShrink = 100;
+
+  // State
+  private chain: Vector2[] = [];
+  private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
+  private evaluations: number = 0;
+  private totalSteps: number = 0;
+
+  setDistribution(distribution: Distribution): void {
+    this.distribution = distribution;
+  }
+
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
+  init(): void {}
+
+  reset(initialPosition?: Vector2): void {
+    const startPos = initialPosition || { x: 0, y: 0 };
+    this.chain = [startPos];
+    this.evaluations = 0;
+    this.totalSteps = 0;
+  }
+
+  // Whether the target supplies its own Gaussian prior
+  usesTargetPrior(): boolean {
+    return this.distribution !== null && hasGaussianPrior(this.distribution);
+  }
+
+  // The prior and likelihood to factor the target into. Targets without a Gaussian
+  // prior are divided by a Gaussian covering their bounds (centre, SD a quarter of
+  // the width), which leaves the density unchanged.
+  private split(distribution: Distribution): { mean: Vector2; covariance: Matrix2; logLikelihood: (point: Vector2) => number } {
+    if (hasGaussianPrior(distribution)) {
+      return {
+        mean: distribution.priorMean,
+        covariance: distribution.priorCovariance,
+        logLikelihood: point => distribution.logLikelihood(point),
+      };
+    }
+    const { xMin, xMax, yMin, yMax } = distribution.bounds;
+    const mean = { x: (xMin + xMax) / 2, y: (yMin + yMax) / 2 };
+    const covariance = { xx: ((xMax - xMin) / 4) ** 2, xy: 0, yy: ((yMax - yMin) / 4) ** 2 };
+    return {
+      mean,
+      covariance,
+      logLikelihood: point => distribution.logDensity(point) - logGaussian(point, mean, covariance),
+    };
+  }
+
+  step(visualizer: Visualizer): void {
+    if (!this.distribution || this.chain.length === 0) return;
+
+    const current = this.chain[this.chain.length - 1];
+    const { mean, covariance, logLikelihood } = this.split(this.distribution);
+    const evaluate = (point: Vector2) => {
+      this.evaluations++;
+      return logLikelihood(point);
+    };
+
+    // Ellipse through the current point: a = x - μ, b = ν ~ N(0, Σ)
+    const { l11, l21, l22 } = cholesky2(covariance);
+    const z1 = this.rng.normal();
+    const z2 = this.rng.normal();
+    const a = { x: current.x - mean.x, y: current.y - mean.y };
+    const b = { x: l11 * z1, y: l21 * z1 + l22 * z2 };
+    visualizer.queue.push({ type: 'ellipse', center: mean, a, b });
+
+    // Likelihood level: log y = log L(x) + log u
+    const logLevel = evaluate(current) + Math.log(this.rng.uniform());
+
+    // Initial bracket [θ - 2π, θ] around a random angle, then shrink toward θ = 0
+    let angle = 2 * Math.PI * this.rng.uniform();
+    let min = angle - 2 * Math.PI;
+    let max = angle;
+    let next = current;
+    for (let i = 0; i < this.maxShrink; i++) {
+      visualizer.queue.push({ type: 'ellipseBracket', min, max, angle });
+      const candidate = {
+        x: mean.x + a.x * Math.cos(angle) + b.x * Math.sin(angle),
+        y: mean.y + a.y * Math.cos(angle) + b.y * Math.sin(angle),
+      };
+      if (evaluate(candidate) > logLevel) {
+        next = candidate;
+        break;
+      }
+      if (angle < 0) min = angle;
+      else max = angle;
+      angle = min + (max - min) * this.rng.uniform();
+    }
+
+    visualizer.queue.push({ type: 'proposal', from: current, to: next });
+    visualizer.queue.push({ type: 'accept', position: next });
+
+    this.chain.push(next);
+    this.totalSteps++;
+  }
+
+  // Mean number of likelihood evaluations per iteration
+  getEvaluationsPerStep(): number {
+    if (this.totalSteps === 0) return 0;
+    return this.evaluations / this.totalSteps;
+  }
+
+  getChain(): Vector2[] {
+    return this.chain;
+  }
+}
@@ -0,0 +1,138 @@
+import type { MCMCAlgorithm } from './MCMCAlgorithm';
+import type { Distribution } from '../distributions/Distribution';
+import type { Visualizer } from '../core/Visualizer';
+import type { Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+import '../core/utils'; // Import to extend Array prototype
+
+// Affine-invariant ensemble sampler (Goodman & Weare, 2010), the stretch move of emcee.
+// Each walker in turn proposes Y = X_j + z (X_k - X_j) along the line through a random
+// other walker X_j, with z ~ g(z) ∝ 1/√z on [1/a, a], and accepts with probability
+// min(1, z^(d-1) p(Y) / p(X_k)). Moves follow the shape of the ensemble, so a stretched
+// or curved target mixes as well as an isotropic one.
+export class EnsembleSampler implements MCMCAlgorithm {
+  name = 'Affine-Invariant Ensemble';
+  description = 'Moves a swarm of walkers with stretch moves along lines through other walkers';
+  parameters = ['numWalkers', 'stretch'];
+
+  // Algorithm parameters
+  numWalkers: number = 16;  // Ensemble size (at least 2d = 4)
+  stretch: number = 2;      // Scale a of the stretch distribution
+
+  // State
+  private chain: Vector2[] = [];
+  private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
+  private walkers: Vector2[] = [];
+  private acceptCount: number = 0;
+  private proposalCount: number = 0;
+
+  setDistribution(distribution: Distribution): void {
+    this.distribution = distribution;
+  }
+
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
+  init(): void {
+    this.numWalkers = 16;
+    this.stretch = 2;
+  }
+
+  reset(initialPosition?: Vector2): void {
+    const startPos = initialPosition || { x: 0, y: 0 };
+    this.chain = [startPos];
+    this.walkers = [];
+    this.acceptCount = 0;
+    this.proposalCount = 0;
+  }
+
+  // Keep the ensemble in sync with numWalkers (it can change while running). New
+  // walkers start in a small ball around the tracked walker, as emcee users start them.
+  private syncWalkers(count: number): void {
+    if (!this.distribution) return;
+    const tracked = this.chain[this.chain.length - 1];
+    const { xMin, xMax, yMin, yMax } = this.distribution.bounds;
+    const spread = { x: 0.01 * (xMax - xMin), y: 0.01 * (yMax - yMin) };
+    if (this.walkers.length === 0) {
+      this.walkers = [tracked];
+    }
+    this.walkers[0] = tracked;
+    while (this.walkers.length < count) {
+      this.walkers.push({
+        x: tracked.x + spread.x * this.rng.normal(),
+        y: tracked.y + spread.y * this.rng.normal(),
+      });
+    }
+    if (this.walkers.length > count) {
+      this.walkers.length = count;
+    }
+  }
+
+  step(visualizer: Visualizer): void {
+    if (!this.distribution || this.chain.length === 0) return;
+
+    this.syncWalkers(Math.max(4, Math.round(this.numWalkers)));
+
+    const current = this.chain[this.chain.length - 1];
+    const a = this.stretch;
+    const n = this.walkers.length;
+    let trackedProposal = current;
+
+    // Serial sweep: each walker moves against the current positions of the others
+    for (let k = 0; k < n; k++) {
+      // Partner j ≠ k, uniformly among the other walkers
+      let j = this.rng.int(n - 1);
+      if (j >= k) j++;
+      const walker = this.walkers[k];
+      const partner = this.walkers[j];
+
+      // z = ((a - 1) u + 1)² / a has density ∝ 1/√z on [1/a, a]
+      const z = Math.pow((a - 1) * this.rng.uniform() + 1, 2) / a;
+      const proposal: Vector2 = {
+        x: partner.x + z * (walker.x - partner.x),
+        y: partner.y + z * (walker.y - partner.y),
+      };
+
+      // α = min(1, z^(d-1) p(Y) / p(X_k)) with d = 2
+      const logAlpha =
+        Math.log(z) +
+        this.distribution.logDensity(proposal) -
+        this.distribution.logDensity(walker);
+      const accepted = Math.log(this.rng.uniform()) < logAlpha;
+
+      visualizer.queue.push({ type: 'stretch', walker: k, partner, from: walker, to: proposal, accepted });
+
+      this.proposalCount++;
+      if (accepted) {
+        this.walkers[k] = proposal;
+        this.acceptCount++;
+      }
+      if (k === 0) trackedProposal = proposal;
+    }
+
+    visualizer.queue.push({ type: 'proposal', from: current, to: trackedProposal });
+    visualizer.queue.push({ type: 'ensemble', positions: this.walkers.slice() });
+
+    // Walker 0 is the chain we report; the others are drawn as the swarm
+    const next = this.walkers[0];
+    if (next !== current) {
+      this.chain.push(next);
+      visualizer.queue.push({ type: 'accept', position: next });
+    } else {
+      this.chain.push(current);
+      visualizer.queue.push({ type: 'reject', position: trackedProposal });
+    }
+  }
+
+  // Acceptance rate over all walkers' stretch moves
+  getAcceptanceRate(): number {
+    if (this.proposalCount === 0) return 0;
+    return this.acceptCount / this.proposalCount;
+  }
+
+  getChain(): Vector2[] {
+    return this.chain;
+  }
+}
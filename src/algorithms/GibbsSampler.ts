@@ -2,10 +2,12 @@ import type { MCMCAlgorithm } from './MCMCAlgorithm';
 import type { Distribution } from '../distributions/Distribution';
 import type { Visualizer } from '../core/Visualizer';
 import type { Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
 
 export class GibbsSampler implements MCMCAlgorithm {
   name = 'Gibbs Sampler';
   description = 'Samples each coordinate from its conditional distribution';
+  parameters = ['gridResolution'];
 
   // Algorithm parameters
   gridResolution: number = 200;
@@ -13,11 +15,16 @@ export class GibbsSampler implements MCMCAlgorithm {
   // State
   private chain: Vector2[] = [];
   private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
 
   setDistribution(distribution: Distribution): void {
     this.distribution = distribution;
   }
 
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
   init(): void {
     this.gridResolution = 200;
   }
@@ -83,13 +90,13 @@ export class GibbsSampler implements MCMCAlgorithm {
     }
 
     // Sample using inverse CDF
-    const u = Math.random() * total;
+    const u = this.rng.uniform() * total;
     let cumsum = 0;
     for (let i = 0; i < n; i++) {
       cumsum += densities[i];
       if (cumsum >= u) {
         // Add small jitter within the bin
-        const x = xMin + (i + Math.random()) * dx;
+        const x = xMin + (i + this.rng.uniform()) * dx;
         return x;
       }
     }
@@ -120,13 +127,13 @@ export class GibbsSampler implements MCMCAlgorithm {
     }
 
     // Sample using inverse CDF
-    const u = Math.random() * total;
+    const u = this.rng.uniform() * total;
     let cumsum = 0;
     for (let i = 0; i < n; i++) {
       cumsum += densities[i];
       if (cumsum >= u) {
         // Add small jitter within the bin
-        const y = yMin + (i + Math.random()) * dy;
+        const y = yMin + (i + this.rng.uniform()) * dy;
         return y;
       }
     }
@@ -1,28 +1,53 @@
 import type { MCMCAlgorithm } from './MCMCAlgorithm';
 import type { Distribution } from '../distributions/Distribution';
 import type { Visualizer } from '../core/Visualizer';
-import { randn } from '../core/utils';
 import type { Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+import {
+  WarmupAdapter,
+  UNIT_METRIC,
+  kineticEnergy,
+  velocity,
+  sampleMomentum,
+  type Metric,
+  type MetricType,
+} from './adaptation';
 import '../core/utils';
 
 export class HamiltonianMC implements MCMCAlgorithm {
   name = 'Hamiltonian Monte Carlo';
   description = 'Uses gradient-based Hamiltonian dynamics for efficient exploration';
+  parameters = ['epsilon', 'L', 'deltaMax', 'adapt', 'targetAccept', 'metricType'];
 
   // Algorithm parameters
   epsilon: number = 0.1;  // Step size for leapfrog integration
   L: number = 20;         // Number of leapfrog steps
+  deltaMax: number = 1000;  // Energy error beyond which a transition counts as divergent
+
+  // Warmup: during burn-in ε is tuned by dual averaging and the metric estimated
+  adapt: boolean = true;
+  targetAccept: number = 0.8;          // Target mean acceptance probability
+  metricType: MetricType = 'diag';
+  metric: Metric = { ...UNIT_METRIC }; // Inverse mass matrix M⁻¹
 
   // State
   private chain: Vector2[] = [];
   private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
   private acceptCount: number = 0;
   private totalSteps: number = 0;
+  private divergenceCount: number = 0;
+  private warmupDivergenceCount: number = 0;
+  private warmup = new WarmupAdapter();
 
   setDistribution(distribution: Distribution): void {
     this.distribution = distribution;
   }
 
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
   init(): void {
     this.epsilon = 0.1;
     this.L = 20;
@@ -33,11 +58,14 @@ export class HamiltonianMC implements MCMCAlgorithm {
     this.chain = [startPos];
     this.acceptCount = 0;
     this.totalSteps = 0;
+    this.divergenceCount = 0;
+    this.warmupDivergenceCount = 0;
+    this.metric = { ...UNIT_METRIC };
   }
 
-  // Kinetic energy: K(p) = 0.5 * p^T * p (unit mass matrix)
+  // Kinetic energy: K(p) = 0.5 * p^T * M⁻¹ * p
   private kineticEnergy(p: Vector2): number {
-    return 0.5 * (p.x * p.x + p.y * p.y);
+    return kineticEnergy(p, this.metric);
   }
 
   // Potential energy: U(q) = -log(density(q))
@@ -57,10 +85,11 @@ export class HamiltonianMC implements MCMCAlgorithm {
       y: p.y + 0.5 * this.epsilon * grad.y,
     };
 
-    // Full step for position
+    // Full step for position (velocity M⁻¹ p)
+    const v = velocity(pHalf, this.metric);
     const qNew: Vector2 = {
-      x: q.x + this.epsilon * pHalf.x,
-      y: q.y + this.epsilon * pHalf.y,
+      x: q.x + this.epsilon * v.x,
+      y: q.y + this.epsilon * v.y,
     };
 
     // Half step for momentum
@@ -78,23 +107,31 @@ export class HamiltonianMC implements MCMCAlgorithm {
 
     const current = this.chain[this.chain.length - 1];
 
-    // Sample momentum from N(0, I)
-    let p: Vector2 = { x: randn(), y: randn() };
+    const iteration = this.chain.length - 1;
+    // Warmup starts from the step size set when the chain begins
+    if (iteration === 0) this.warmup.restart(this.epsilon);
+
+    // Sample momentum from N(0, M)
+    let p: Vector2 = sampleMomentum(this.rng, this.metric);
     const initialMomentum = { ...p };
 
     // Store initial state
     const currentH = this.potentialEnergy(current) + this.kineticEnergy(p);
 
-    // Run leapfrog integration
+    // Run leapfrog integration, stopping early if the energy error blows up
     let q = { ...current };
     const trajectory: Vector2[] = [{ ...q }];
+    let energyError = 0;
 
     for (let i = 0; i < this.L; i++) {
       const result = this.leapfrogStep(q, p);
       q = result.q;
       p = result.p;
       trajectory.push({ ...q });
+      energyError = this.potentialEnergy(q) + this.kineticEnergy(p) - currentH;
+      if (!(energyError < this.deltaMax)) break;
     }
+    const divergent = !(energyError < this.deltaMax);
 
     // Negate momentum at end (for reversibility, though not strictly needed for MH)
     p = { x: -p.x, y: -p.y };
@@ -116,9 +153,18 @@ export class HamiltonianMC implements MCMCAlgorithm {
       to: q,
     });
 
+    // Divergent transitions are marked where they started (the chain state), as Stan does.
+    // While ε is still being tuned divergences are expected, so they are counted apart.
+    const adapting = this.adapt && iteration < visualizer.burnIn;
+    if (divergent) {
+      if (adapting) this.warmupDivergenceCount++;
+      else this.divergenceCount++;
+      visualizer.queue.push({ type: 'divergence', position: current, energyError, warmup: adapting });
+    }
+
     // Metropolis acceptance: accept with probability min(1, exp(H - H'))
     const logAlpha = currentH - proposedH;
-    const accept = Math.log(Math.random()) < logAlpha && isFinite(proposedH);
+    const accept = Math.log(this.rng.uniform()) < logAlpha && isFinite(proposedH) && !divergent;
 
     if (accept) {
       this.chain.push(q);
@@ -130,6 +176,14 @@ export class HamiltonianMC implements MCMCAlgorithm {
     }
 
     this.totalSteps++;
+
+    // Warmup adaptation from this transition's acceptance probability
+    if (adapting) {
+      const acceptStat = divergent ? 0 : Math.min(1, Math.exp(logAlpha));
+      this.warmup.update(iteration, visualizer.burnIn, acceptStat, this.chain.last(), this.targetAccept, this.metricType);
+      this.epsilon = this.warmup.epsilon;
+      this.metric = this.warmup.metric;
+    }
   }
 
   getAcceptanceRate(): number {
@@ -137,6 +191,14 @@ export class HamiltonianMC implements MCMCAlgorithm {
     return this.acceptCount / this.totalSteps;
   }
 
+  getDivergenceCount(): number {
+    return this.divergenceCount;
+  }
+
+  getWarmupDivergenceCount(): number {
+    return this.warmupDivergenceCount;
+  }
+
   getChain(): Vector2[] {
     return this.chain;
   }
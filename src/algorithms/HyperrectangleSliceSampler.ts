@@ -0,0 +1,105 @@
+import type { MCMCAlgorithm } from './MCMCAlgorithm';
+import type { Distribution } from '../distributions/Distribution';
+import type { Visualizer } from '../core/Visualizer';
+import type { Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+
+// Multivariate slice sampling with a hyperrectangle (Neal, 2003, §5.1): draw a level
+// under the density, place a wx × wy box at random around the current point and
+// shrink every side toward the point until a uniform draw from the box lands in the
+// slice. Both coordinates move at once, so there is no axis-aligned zig-zag, but
+// without stepping out the box must start large enough to cover the slice.
+export class HyperrectangleSliceSampler implements MCMCAlgorithm {
+  name = 'Hyperrectangle Slice Sampler';
+  description = 'Samples uniformly from the slice under the density by shrinking a box around the current state';
+  parameters = ['widthX', 'widthY'];
+
+  // Algorithm parameters
+  widthX: number = 3;  // Initial box width along x
+  widthY: number = 3;  // Initial box width along y
+  private readonly maxShrink = 100;
+
+  // State
+  private chain: Vector2[] = [];
+  private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
+  private evaluations: number = 0;
+  private totalSteps: number = 0;
+
+  setDistribution(distribution: Distribution): void {
+    this.distribution = distribution;
+  }
+
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
+  init(): void {
+    this.widthX = 3;
+    this.widthY = 3;
+  }
+
+  reset(initialPosition?: Vector2): void {
+    const startPos = initialPosition || { x: 0, y: 0 };
+    this.chain = [startPos];
+    this.evaluations = 0;
+    this.totalSteps = 0;
+  }
+
+  step(visualizer: Visualizer): void {
+    if (!this.distribution || this.chain.length === 0) return;
+
+    const distribution = this.distribution;
+    const current = this.chain[this.chain.length - 1];
+    const logDensity = (point: Vector2) => {
+      this.evaluations++;
+      return distribution.logDensity(point);
+    };
+
+    // Slice level: log y = log p(x₀) + log u, u ~ U(0, 1)
+    const logLevel = logDensity(current) + Math.log(this.rng.uniform());
+    visualizer.queue.push({ type: 'slice', position: current, logLevel });
+
+    // Randomly placed initial box
+    const min = {
+      x: current.x - this.widthX * this.rng.uniform(),
+      y: current.y - this.widthY * this.rng.uniform(),
+    };
+    const max = { x: min.x + this.widthX, y: min.y + this.widthY };
+    visualizer.queue.push({ type: 'sliceInterval', min: { ...min }, max: { ...max }, phase: 'initial' });
+
+    // Shrink each side toward x₀ until a draw lands in the slice
+    let next = current;
+    for (let i = 0; i < this.maxShrink; i++) {
+      const candidate = {
+        x: min.x + (max.x - min.x) * this.rng.uniform(),
+        y: min.y + (max.y - min.y) * this.rng.uniform(),
+      };
+      if (logDensity(candidate) > logLevel) {
+        next = candidate;
+        break;
+      }
+      if (candidate.x < current.x) min.x = candidate.x;
+      else max.x = candidate.x;
+      if (candidate.y < current.y) min.y = candidate.y;
+      else max.y = candidate.y;
+      visualizer.queue.push({ type: 'sliceInterval', min: { ...min }, max: { ...max }, phase: 'shrink' });
+    }
+
+    visualizer.queue.push({ type: 'proposal', from: current, to: next });
+    visualizer.queue.push({ type: 'accept', position: next });
+
+    this.chain.push(next);
+    this.totalSteps++;
+  }
+
+  // Mean number of log-density evaluations per iteration
+  getEvaluationsPerStep(): number {
+    if (this.totalSteps === 0) return 0;
+    return this.evaluations / this.totalSteps;
+  }
+
+  getChain(): Vector2[] {
+    return this.chain;
+  }
+}
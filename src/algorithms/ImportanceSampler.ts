@@ -0,0 +1,132 @@
+import type { MCMCAlgorithm } from './MCMCAlgorithm';
+import type { Distribution } from '../distributions/Distribution';
+import type { Visualizer } from '../core/Visualizer';
+import { logGamma, normalizeLogWeights, sampleIndex } from '../core/utils';
+import type { Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+import '../core/utils';
+
+export type ProposalFamily = 'gaussian' | 'student-t';
+
+export class ImportanceSampler implements MCMCAlgorithm {
+  name = 'Importance Sampling';
+  description = 'Draws weighted samples from a proposal distribution and resamples them by weight (SIR)';
+  parameters = ['proposalFamily', 'proposalMeanX', 'proposalMeanY', 'proposalScale', 'degreesOfFreedom', 'batchSize', 'maxParticles'];
+
+  // Algorithm parameters
+  proposalFamily: ProposalFamily = 'gaussian';
+  proposalMeanX: number = 0;
+  proposalMeanY: number = 0;
+  proposalScale: number = 2;    // Standard deviation (Gaussian) or scale (Student-t)
+  degreesOfFreedom: number = 3; // Student-t only
+  batchSize: number = 10;       // Proposal draws per iteration
+  maxParticles: number = 500;   // Most recent draws kept in the weighted set
+
+  // State
+  private chain: Vector2[] = [];
+  private particles: Vector2[] = [];
+  private logWeights: number[] = [];
+  private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
+
+  setDistribution(distribution: Distribution): void {
+    this.distribution = distribution;
+  }
+
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
+  init(): void {
+    this.proposalFamily = 'gaussian';
+    this.proposalScale = 2;
+    this.degreesOfFreedom = 3;
+    this.batchSize = 10;
+    this.maxParticles = 500;
+
+    // Center the proposal on the target's plotting region
+    if (this.distribution) {
+      const { xMin, xMax, yMin, yMax } = this.distribution.bounds;
+      this.proposalMeanX = (xMin + xMax) / 2;
+      this.proposalMeanY = (yMin + yMax) / 2;
+    }
+  }
+
+  // Draws come from the proposal, not from a given position
+  reset(): void {
+    this.chain = [];
+    this.particles = [];
+    this.logWeights = [];
+  }
+
+  // Draw from the isotropic proposal q(x)
+  private sampleProposal(): Vector2 {
+    let scale = this.proposalScale;
+    if (this.proposalFamily === 'student-t') {
+      // t = z / sqrt(χ²_ν / ν), with χ²_ν = 2·Gamma(ν/2)
+      const nu = this.degreesOfFreedom;
+      const chi2 = 2 * this.rng.gamma(nu / 2);
+      scale *= Math.sqrt(nu / chi2);
+    }
+    return {
+      x: this.proposalMeanX + this.rng.normal() * scale,
+      y: this.proposalMeanY + this.rng.normal() * scale,
+    };
+  }
+
+  // Normalized log proposal density, so that draws kept from before a change of family,
+  // scale or ν are weighted on the same scale as new ones
+  private logProposalDensity(point: Vector2): number {
+    const dx = point.x - this.proposalMeanX;
+    const dy = point.y - this.proposalMeanY;
+    const r2 = (dx * dx + dy * dy) / (this.proposalScale * this.proposalScale);
+    const logScale = 2 * Math.log(this.proposalScale);
+    if (this.proposalFamily === 'student-t') {
+      // Bivariate t: Γ((ν+2)/2) / (Γ(ν/2) ν π σ²) (1 + r²/ν)^(-(ν+2)/2)
+      const nu = this.degreesOfFreedom;
+      return (
+        logGamma((nu + 2) / 2) - logGamma(nu / 2) - Math.log(nu * Math.PI) - logScale -
+        ((nu + 2) / 2) * Math.log(1 + r2 / nu)
+      );
+    }
+    return -0.5 * r2 - Math.log(2 * Math.PI) - logScale;
+  }
+
+  step(visualizer: Visualizer): void {
+    if (!this.distribution) return;
+
+    // Draw a batch and weight each point by w = π(x) / q(x)
+    for (let i = 0; i < this.batchSize; i++) {
+      const point = this.sampleProposal();
+      this.particles.push(point);
+      this.logWeights.push(this.distribution.logDensity(point) - this.logProposalDensity(point));
+    }
+
+    // Keep only the most recent draws
+    const excess = this.particles.length - this.maxParticles;
+    if (excess > 0) {
+      this.particles.splice(0, excess);
+      this.logWeights.splice(0, excess);
+    }
+
+    const weights = normalizeLogWeights(this.logWeights);
+
+    visualizer.queue.push({
+      type: 'particles',
+      points: this.particles.slice(),
+      weights,
+    });
+
+    // SIR: resample one particle by weight to obtain an unweighted draw for the chain
+    const selected = this.particles[sampleIndex(weights, this.rng)];
+    if (this.chain.length > 0) {
+      visualizer.queue.push({ type: 'proposal', from: this.chain[this.chain.length - 1], to: selected });
+    }
+    this.chain.push(selected);
+    visualizer.queue.push({ type: 'accept', position: selected });
+  }
+
+  getChain(): Vector2[] {
+    return this.chain;
+  }
+}
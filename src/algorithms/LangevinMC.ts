@@ -1,13 +1,14 @@
 import type { MCMCAlgorithm } from './MCMCAlgorithm';
 import type { Distribution } from '../distributions/Distribution';
 import type { Visualizer } from '../core/Visualizer';
-import { randn } from '../core/utils';
 import type { Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
 import '../core/utils';
 
 export class LangevinMC implements MCMCAlgorithm {
   name = 'Metropolis-adjusted Langevin';
   description = 'Combines gradient-driven drift toward local peaks with Gaussian noise. Efficient within modes but tends to get trapped in multimodal distributions';
+  parameters = ['epsilon'];
 
   // Algorithm parameters
   epsilon: number = 0.3;  // Step size
@@ -15,6 +16,7 @@ export class LangevinMC implements MCMCAlgorithm {
   // State
   private chain: Vector2[] = [];
   private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
   private acceptCount: number = 0;
   private totalSteps: number = 0;
 
@@ -22,6 +24,10 @@ export class LangevinMC implements MCMCAlgorithm {
     this.distribution = distribution;
   }
 
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
   init(): void {
     this.epsilon = 0.3;
   }
@@ -63,8 +69,8 @@ export class LangevinMC implements MCMCAlgorithm {
     // Propose new state: q' ~ N(μ(q), ε * I)
     const sqrtEps = Math.sqrt(this.epsilon);
     const proposal: Vector2 = {
-      x: mean.x + randn() * sqrtEps,
-      y: mean.y + randn() * sqrtEps,
+      x: mean.x + this.rng.normal() * sqrtEps,
+      y: mean.y + this.rng.normal() * sqrtEps,
     };
 
     // Get gradient for visualization
@@ -95,7 +101,7 @@ export class LangevinMC implements MCMCAlgorithm {
     const logAlpha = logPiProposal - logPiCurrent + logQBackward - logQForward;
 
     // Accept or reject
-    const accept = Math.log(Math.random()) < logAlpha && isFinite(logPiProposal);
+    const accept = Math.log(this.rng.uniform()) < logAlpha && isFinite(logPiProposal);
 
     if (accept) {
       this.chain.push(proposal);
@@ -1,13 +1,23 @@
 import type { Visualizer } from '../core/Visualizer';
 import type { Distribution } from '../distributions/Distribution';
+import type { Random } from '../core/random';
+import type { SkeletonPoint } from './pdmp';
+
+export type ParameterValue = number | string | boolean;
 
 export interface MCMCAlgorithm {
   name: string;
   description: string;
 
+  // Names of the tunable parameters (the only fields setParameter writes)
+  parameters: readonly string[];
+
   // Set the target distribution
   setDistribution(distribution: Distribution): void;
 
+  // Set the random number stream (all randomness must come from it for reproducible runs)
+  setRandom(rng: Random): void;
+
   // Initialize algorithm parameters
   init(): void;
 
@@ -20,6 +30,32 @@ export interface MCMCAlgorithm {
   // Get acceptance rate (if applicable)
   getAcceptanceRate?(): number;
 
+  // Number of divergent transitions after warmup (gradient-based samplers)
+  getDivergenceCount?(): number;
+
+  // Divergent transitions while the step size was still being adapted
+  getWarmupDivergenceCount?(): number;
+
+  // Tempering progress (sequential Monte Carlo): inverse temperature β = 1/T of the
+  // current stage and the running log normalizing-constant estimate
+  getTempering?(): { beta: number; logEvidence: number };
+
+  // Event-time skeleton of a continuous-time (piecewise deterministic) sampler; the
+  // chain holds the path discretized at equal times
+  getSkeleton?(): SkeletonPoint[];
+
   // Get current chain
   getChain(): Array<{ x: number; y: number }>;
 }
+
+// Set a tunable parameter by name (control panel, headless runner). Keys outside
+// algorithm.parameters, and values of another type than the current one, are rejected.
+export function setParameter(algorithm: MCMCAlgorithm, key: string, value: ParameterValue): void {
+  if (!algorithm.parameters.includes(key)) {
+    throw new Error(`Unknown parameter for ${algorithm.name}: ${key}`);
+  }
+  if (typeof Reflect.get(algorithm, key) !== typeof value) {
+    throw new Error(`Invalid value for ${algorithm.name} parameter ${key}: ${String(value)}`);
+  }
+  Object.assign(algorithm, { [key]: value });
+}
@@ -0,0 +1,108 @@
+import type { MCMCAlgorithm } from './MCMCAlgorithm';
+import type { Distribution } from '../distributions/Distribution';
+import type { Visualizer } from '../core/Visualizer';
+import { logSumExp, normalizeLogWeights, sampleIndex, type Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+import '../core/utils'; // Import to extend Array prototype
+
+// Multiple-try Metropolis (Liu, Liang & Wong, 2000) with a symmetric Gaussian proposal.
+// Draws k candidates y_j ~ N(x, σ²I) and selects one with probability ∝ π(y_j). A
+// reference set of k - 1 draws around the selected y, plus x itself, balances the
+// selection: accept with probability min(1, Σ π(y_j) / Σ π(x*_j)). More tries allow a
+// larger σ at the same acceptance rate, at the cost of 2k - 1 density evaluations.
+export class MultipleTryMetropolis implements MCMCAlgorithm {
+  name = 'Multiple-Try Metropolis';
+  description = 'Draws several Gaussian candidates per step and selects one by its density';
+  parameters = ['sigma', 'numTries'];
+
+  // Algorithm parameters
+  sigma: number = 1;
+  numTries: number = 5;
+
+  // State
+  private chain: Vector2[] = [];
+  private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
+  private acceptCount: number = 0;
+  private totalSteps: number = 0;
+
+  setDistribution(distribution: Distribution): void {
+    this.distribution = distribution;
+  }
+
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
+  init(): void {
+    this.sigma = 1;
+    this.numTries = 5;
+  }
+
+  reset(initialPosition?: Vector2): void {
+    const startPos = initialPosition || { x: 0, y: 0 };
+    this.chain = [startPos];
+    this.acceptCount = 0;
+    this.totalSteps = 0;
+  }
+
+  private drawAround(center: Vector2): Vector2 {
+    return {
+      x: center.x + this.rng.normal() * this.sigma,
+      y: center.y + this.rng.normal() * this.sigma,
+    };
+  }
+
+  step(visualizer: Visualizer): void {
+    if (!this.distribution || this.chain.length === 0) return;
+
+    const distribution = this.distribution;
+    const current = this.chain[this.chain.length - 1];
+    const k = Math.max(1, Math.round(this.numTries));
+
+    // k candidates around x, one selected with probability ∝ π(y_j)
+    const candidates: Vector2[] = [];
+    for (let j = 0; j < k; j++) candidates.push(this.drawAround(current));
+    const logCandidates = candidates.map(y => distribution.logDensity(y));
+    const weights = normalizeLogWeights(logCandidates);
+    const selected = sampleIndex(weights, this.rng);
+    const proposal = candidates[selected];
+
+    // Reference set: k - 1 draws around the selected candidate, plus x
+    const references: Vector2[] = [];
+    for (let j = 0; j < k - 1; j++) references.push(this.drawAround(proposal));
+    const logReferences = references.map(r => distribution.logDensity(r));
+    logReferences.push(distribution.logDensity(current));
+
+    visualizer.queue.push({ type: 'candidates', points: candidates, weights, selected, references });
+    visualizer.queue.push({
+      type: 'proposal',
+      from: current,
+      to: proposal,
+      radius: this.sigma,
+    });
+
+    const logAlpha = logSumExp(logCandidates) - logSumExp(logReferences);
+    const accept = Math.log(this.rng.uniform()) < logAlpha;
+
+    if (accept) {
+      this.chain.push(proposal);
+      this.acceptCount++;
+      visualizer.queue.push({ type: 'accept', position: proposal });
+    } else {
+      this.chain.push(current);
+      visualizer.queue.push({ type: 'reject', position: proposal });
+    }
+
+    this.totalSteps++;
+  }
+
+  getAcceptanceRate(): number {
+    if (this.totalSteps === 0) return 0;
+    return this.acceptCount / this.totalSteps;
+  }
+
+  getChain(): Vector2[] {
+    return this.chain;
+  }
+}
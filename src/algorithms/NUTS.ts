@@ -1,8 +1,18 @@
 import type { MCMCAlgorithm } from './MCMCAlgorithm';
 import type { Distribution } from '../distributions/Distribution';
 import type { Visualizer } from '../core/Visualizer';
-import { randn, vectorDot, vectorSubtract } from '../core/utils';
+import { vectorDot, vectorSubtract } from '../core/utils';
 import type { Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+import {
+  WarmupAdapter,
+  UNIT_METRIC,
+  kineticEnergy,
+  velocity,
+  sampleMomentum,
+  type Metric,
+  type MetricType,
+} from './adaptation';
 import '../core/utils';
 
 interface TreeState {
@@ -15,27 +25,43 @@ interface TreeState {
   sPrime: boolean;
   alphaPrime: number;
   nAlphaPrime: number;
+  divergence: number | null;  // Energy error of the first divergent leapfrog step
 }
 
 export class NUTS implements MCMCAlgorithm {
   name = 'No-U-Turn Sampler';
   description = 'HMC variant that automatically determines optimal trajectory length by detecting when the path starts doubling back (U-turn)';
+  parameters = ['epsilon', 'maxTreeDepth', 'deltaMax', 'adapt', 'targetAccept', 'metricType'];
 
   // Algorithm parameters
   epsilon: number = 0.1;       // Step size
   maxTreeDepth: number = 10;   // Maximum tree depth
-  deltaMax: number = 1000;     // Energy divergence threshold
+  deltaMax: number = 1000;     // Energy error beyond which a transition counts as divergent
+
+  // Warmup: during burn-in ε is tuned by dual averaging and the metric estimated
+  adapt: boolean = true;
+  targetAccept: number = 0.8;          // Target mean acceptance statistic
+  metricType: MetricType = 'diag';
+  metric: Metric = { ...UNIT_METRIC }; // Inverse mass matrix M⁻¹
 
   // State
   private chain: Vector2[] = [];
   private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
   private acceptCount: number = 0;
   private totalSteps: number = 0;
+  private divergenceCount: number = 0;
+  private warmupDivergenceCount: number = 0;
+  private warmup = new WarmupAdapter();
 
   setDistribution(distribution: Distribution): void {
     this.distribution = distribution;
   }
 
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
   init(): void {
     this.epsilon = 0.1;
     this.maxTreeDepth = 10;
@@ -46,10 +72,13 @@ export class NUTS implements MCMCAlgorithm {
     this.chain = [startPos];
     this.acceptCount = 0;
     this.totalSteps = 0;
+    this.divergenceCount = 0;
+    this.warmupDivergenceCount = 0;
+    this.metric = { ...UNIT_METRIC };
   }
 
   private kineticEnergy(p: Vector2): number {
-    return 0.5 * (p.x * p.x + p.y * p.y);
+    return kineticEnergy(p, this.metric);
   }
 
   private potentialEnergy(q: Vector2): number {
@@ -70,9 +99,10 @@ export class NUTS implements MCMCAlgorithm {
       y: p.y + 0.5 * epsilon * grad.y,
     };
 
+    const v = velocity(pHalf, this.metric);
     const qNew: Vector2 = {
-      x: q.x + epsilon * pHalf.x,
-      y: q.y + epsilon * pHalf.y,
+      x: q.x + epsilon * v.x,
+      y: q.y + epsilon * v.y,
     };
 
     const gradNew = this.distribution.gradient(qNew);
@@ -84,10 +114,10 @@ export class NUTS implements MCMCAlgorithm {
     return { q: qNew, p: pNew };
   }
 
-  // Check U-turn condition
+  // Check U-turn condition (on velocities M⁻¹ p, so it holds under any metric)
   private checkUTurn(qMinus: Vector2, qPlus: Vector2, pMinus: Vector2, pPlus: Vector2): boolean {
     const dq = vectorSubtract(qPlus, qMinus);
-    return vectorDot(dq, pMinus) >= 0 && vectorDot(dq, pPlus) >= 0;
+    return vectorDot(dq, velocity(pMinus, this.metric)) >= 0 && vectorDot(dq, velocity(pPlus, this.metric)) >= 0;
   }
 
   // Build tree recursively
@@ -110,6 +140,7 @@ export class NUTS implements MCMCAlgorithm {
       const nPrime = u <= Math.exp(H0 - HPrime) ? 1 : 0;
       const sPrime = HPrime - H0 < this.deltaMax;
       const alphaPrime = Math.min(1, Math.exp(H0 - HPrime));
+      const divergence = sPrime ? null : HPrime - H0;
 
       return {
         qMinus: qPrime,
@@ -121,6 +152,7 @@ export class NUTS implements MCMCAlgorithm {
         sPrime,
         alphaPrime: isNaN(alphaPrime) ? 0 : alphaPrime,
         nAlphaPrime: 1,
+        divergence,
       };
     }
 
@@ -140,7 +172,7 @@ export class NUTS implements MCMCAlgorithm {
     // Combine subtrees
     const nTotal = tree.nPrime + tree2.nPrime;
     let qPrime = tree.qPrime;
-    if (nTotal > 0 && Math.random() < tree2.nPrime / nTotal) {
+    if (nTotal > 0 && this.rng.uniform() < tree2.nPrime / nTotal) {
       qPrime = tree2.qPrime;
     }
 
@@ -163,6 +195,7 @@ export class NUTS implements MCMCAlgorithm {
       sPrime,
       alphaPrime: tree.alphaPrime + tree2.alphaPrime,
       nAlphaPrime: tree.nAlphaPrime + tree2.nAlphaPrime,
+      divergence: tree.divergence ?? tree2.divergence,
     };
   }
 
@@ -171,14 +204,18 @@ export class NUTS implements MCMCAlgorithm {
 
     const q0 = this.chain[this.chain.length - 1];
 
-    // Sample momentum
-    const p0: Vector2 = { x: randn(), y: randn() };
+    const iteration = this.chain.length - 1;
+    // Warmup starts from the step size set when the chain begins
+    if (iteration === 0) this.warmup.restart(this.epsilon);
+
+    // Sample momentum from N(0, M)
+    const p0: Vector2 = sampleMomentum(this.rng, this.metric);
 
     // Initial Hamiltonian
     const H0 = this.hamiltonian(q0, p0);
 
-    // Slice variable
-    const u = Math.random() * Math.exp(-H0);
+    // Slice variable, relative to exp(-H0): a state is in the slice when u <= exp(H0 - H)
+    const u = this.rng.uniform();
 
     // Initialize tree
     let qMinus = { ...q0 };
@@ -189,10 +226,14 @@ export class NUTS implements MCMCAlgorithm {
     let n = 1;
     let s = true;
     let j = 0;
+    let divergence: number | null = null;
+    // Mean Metropolis acceptance over every leapfrog step, the statistic ε adapts to
+    let alphaSum = 0;
+    let alphaCount = 0;
 
     while (s && j < this.maxTreeDepth) {
       // Choose direction
-      const v = Math.random() < 0.5 ? -1 : 1;
+      const v = this.rng.uniform() < 0.5 ? -1 : 1;
 
       let tree: TreeState;
       if (v === -1) {
@@ -205,10 +246,13 @@ export class NUTS implements MCMCAlgorithm {
         pPlus = tree.pPlus;
       }
 
-      if (tree.sPrime && Math.random() < tree.nPrime / n) {
+      if (tree.sPrime && this.rng.uniform() < tree.nPrime / n) {
         q = tree.qPrime;
       }
 
+      divergence = divergence ?? tree.divergence;
+      alphaSum += tree.alphaPrime;
+      alphaCount += tree.nAlphaPrime;
       n += tree.nPrime;
       s = tree.sPrime && this.checkUTurn(qMinus, qPlus, pMinus, pPlus);
       j++;
@@ -217,6 +261,15 @@ export class NUTS implements MCMCAlgorithm {
     // Note: Unlike HMC, NUTS trajectory is not a continuous path (tree grows in both directions)
     // so we don't visualize it as a line - only the final proposal is shown
 
+    // Divergent transitions are marked where they started (the chain state), as Stan does.
+    // While ε is still being tuned divergences are expected, so they are counted apart.
+    const adapting = this.adapt && iteration < visualizer.burnIn;
+    if (divergence !== null) {
+      if (adapting) this.warmupDivergenceCount++;
+      else this.divergenceCount++;
+      visualizer.queue.push({ type: 'divergence', position: q0, energyError: divergence, warmup: adapting });
+    }
+
     // Push proposal
     visualizer.queue.push({
       type: 'proposal',
@@ -236,6 +289,13 @@ export class NUTS implements MCMCAlgorithm {
     }
 
     this.totalSteps++;
+
+    if (adapting) {
+      const acceptStat = alphaCount > 0 ? alphaSum / alphaCount : 0;
+      this.warmup.update(iteration, visualizer.burnIn, acceptStat, this.chain.last(), this.targetAccept, this.metricType);
+      this.epsilon = this.warmup.epsilon;
+      this.metric = this.warmup.metric;
+    }
   }
 
   getAcceptanceRate(): number {
@@ -243,6 +303,14 @@ export class NUTS implements MCMCAlgorithm {
     return this.acceptCount / this.totalSteps;
   }
 
+  getDivergenceCount(): number {
+    return this.divergenceCount;
+  }
+
+  getWarmupDivergenceCount(): number {
+    return this.warmupDivergenceCount;
+  }
+
   getChain(): Vector2[] {
     return this.chain;
   }
@@ -0,0 +1,181 @@
+import type { MCMCAlgorithm } from './MCMCAlgorithm';
+import type { Distribution } from '../distributions/Distribution';
+import type { Visualizer } from '../core/Visualizer';
+import type { Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+import '../core/utils';
+
+export class ParallelTempering implements MCMCAlgorithm {
+  name = 'Parallel Tempering';
+  description = 'Runs tempered replicas of the target and swaps states between adjacent temperatures so the cold chain can escape local modes';
+  parameters = ['sigma', 'numReplicas', 'maxTemperature', 'swapInterval'];
+
+  // Algorithm parameters
+  sigma: number = 0.5;          // Random walk step size at T = 1
+  numReplicas: number = 4;      // Number of temperatures in the ladder
+  maxTemperature: number = 8;   // Temperature of the hottest replica
+  swapInterval: number = 1;     // Attempt a swap every N iterations
+
+  // State
+  private chain: Vector2[] = [];
+  private replicas: Vector2[] = [];
+  private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
+  private acceptCount: number = 0;
+  private totalSteps: number = 0;
+  private swapAcceptCount: number = 0;
+  private swapAttemptCount: number = 0;
+
+  setDistribution(distribution: Distribution): void {
+    this.distribution = distribution;
+  }
+
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
+  init(): void {
+    this.sigma = 0.5;
+    this.numReplicas = 4;
+    this.maxTemperature = 8;
+    this.swapInterval = 1;
+  }
+
+  reset(initialPosition?: Vector2): void {
+    const startPos = initialPosition || { x: 0, y: 0 };
+    this.chain = [startPos];
+    this.replicas = [];
+    this.acceptCount = 0;
+    this.totalSteps = 0;
+    this.swapAcceptCount = 0;
+    this.swapAttemptCount = 0;
+  }
+
+  // Geometric temperature ladder: T_k = T_max^(k / (K - 1)), with T_0 = 1 for the cold chain
+  getTemperatures(): number[] {
+    const n = Math.max(1, Math.round(this.numReplicas));
+    if (n === 1) return [1];
+    const temperatures: number[] = [];
+    for (let k = 0; k < n; k++) {
+      temperatures.push(Math.pow(this.maxTemperature, k / (n - 1)));
+    }
+    return temperatures;
+  }
+
+  // Keep the replica set in sync with the ladder size (it can change while running)
+  private syncReplicas(count: number): void {
+    const cold = this.chain[this.chain.length - 1];
+    if (this.replicas.length === 0) {
+      this.replicas = [cold];
+    }
+    this.replicas[0] = cold;
+    while (this.replicas.length < count) {
+      this.replicas.push({ ...cold });
+    }
+    if (this.replicas.length > count) {
+      this.replicas.length = count;
+    }
+  }
+
+  // Metropolis step targeting π(x)^(1/T)
+  private temperedStep(position: Vector2, temperature: number): { position: Vector2; proposal: Vector2; accepted: boolean } {
+    if (!this.distribution) return { position, proposal: position, accepted: false };
+
+    // Hotter replicas take proportionally larger steps
+    const scale = this.sigma * Math.sqrt(temperature);
+    const proposal: Vector2 = {
+      x: position.x + this.rng.normal() * scale,
+      y: position.y + this.rng.normal() * scale,
+    };
+
+    const logAlpha =
+      (this.distribution.logDensity(proposal) - this.distribution.logDensity(position)) / temperature;
+    const accepted = Math.log(this.rng.uniform()) < logAlpha;
+
+    return { position: accepted ? proposal : position, proposal, accepted };
+  }
+
+  step(visualizer: Visualizer): void {
+    if (!this.distribution || this.chain.length === 0) return;
+
+    const temperatures = this.getTemperatures();
+    this.syncReplicas(temperatures.length);
+
+    const current = this.chain[this.chain.length - 1];
+
+    // Within-temperature moves for every replica
+    let coldProposal: Vector2 = current;
+    for (let k = 0; k < this.replicas.length; k++) {
+      const result = this.temperedStep(this.replicas[k], temperatures[k]);
+      this.replicas[k] = result.position;
+      if (k === 0) {
+        coldProposal = result.proposal;
+        if (result.accepted) this.acceptCount++;
+      }
+    }
+
+    visualizer.queue.push({
+      type: 'proposal',
+      from: current,
+      to: coldProposal,
+      radius: this.sigma,
+    });
+
+    // Replica exchange between a random adjacent pair (k, k + 1)
+    const interval = Math.max(1, Math.round(this.swapInterval));
+    if (this.replicas.length > 1 && (this.totalSteps + 1) % interval === 0) {
+      const i = this.rng.int(this.replicas.length - 1);
+      const j = i + 1;
+      const betaI = 1 / temperatures[i];
+      const betaJ = 1 / temperatures[j];
+
+      // α = min(1, π(x_j)^β_i π(x_i)^β_j / (π(x_i)^β_i π(x_j)^β_j))
+      const logAlpha =
+        (betaI - betaJ) *
+        (this.distribution.logDensity(this.replicas[j]) - this.distribution.logDensity(this.replicas[i]));
+      const accepted = Math.log(this.rng.uniform()) < logAlpha;
+
+      this.swapAttemptCount++;
+      if (accepted) {
+        this.swapAcceptCount++;
+        const tmp = this.replicas[i];
+        this.replicas[i] = this.replicas[j];
+        this.replicas[j] = tmp;
+      }
+
+      visualizer.queue.push({ type: 'swap', i, j, accepted });
+    }
+
+    visualizer.queue.push({
+      type: 'replicas',
+      positions: this.replicas.slice(),
+      temperatures,
+    });
+
+    // The cold replica is the chain we report; it may have changed via its own move or a swap
+    const next = this.replicas[0];
+    if (next.x !== current.x || next.y !== current.y) {
+      this.chain.push(next);
+      visualizer.queue.push({ type: 'accept', position: next });
+    } else {
+      this.chain.push(current);
+      visualizer.queue.push({ type: 'reject', position: coldProposal });
+    }
+
+    this.totalSteps++;
+  }
+
+  getAcceptanceRate(): number {
+    if (this.totalSteps === 0) return 0;
+    return this.acceptCount / this.totalSteps;
+  }
+
+  getSwapAcceptanceRate(): number {
+    if (this.swapAttemptCount === 0) return 0;
+    return this.swapAcceptCount / this.swapAttemptCount;
+  }
+
+  getChain(): Vector2[] {
+    return this.chain;
+  }
+}
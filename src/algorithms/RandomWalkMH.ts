@@ -1,13 +1,14 @@
 import type { MCMCAlgorithm } from './MCMCAlgorithm';
 import type { Distribution } from '../distributions/Distribution';
 import type { Visualizer } from '../core/Visualizer';
-import { randn } from '../core/utils';
 import type { Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
 import '../core/utils'; // Import to extend Array prototype
 
 export class RandomWalkMH implements MCMCAlgorithm {
   name = 'Random Walk Metropolis-Hastings';
   description = 'Proposes new states from a Gaussian centered at current state';
+  parameters = ['sigma'];
 
   // Algorithm parameters
   sigma: number = 0.5;
@@ -15,6 +16,7 @@ export class RandomWalkMH implements MCMCAlgorithm {
   // State
   private chain: Vector2[] = [];
   private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
   private acceptCount: number = 0;
   private totalSteps: number = 0;
 
@@ -22,6 +24,10 @@ export class RandomWalkMH implements MCMCAlgorithm {
     this.distribution = distribution;
   }
 
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
   init(): void {
     this.sigma = 0.5;
   }
@@ -40,8 +46,8 @@ export class RandomWalkMH implements MCMCAlgorithm {
 
     // Propose new state: x' ~ N(x, σ²I)
     const proposal: Vector2 = {
-      x: current.x + randn() * this.sigma,
-      y: current.y + randn() * this.sigma,
+      x: current.x + this.rng.normal() * this.sigma,
+      y: current.y + this.rng.normal() * this.sigma,
     };
 
     // Push proposal event to visualizer queue
@@ -59,7 +65,7 @@ export class RandomWalkMH implements MCMCAlgorithm {
       this.distribution.logDensity(current);
 
     // Accept or reject
-    const accept = Math.log(Math.random()) < logAlpha;
+    const accept = Math.log(this.rng.uniform()) < logAlpha;
 
     if (accept) {
       this.chain.push(proposal);
@@ -0,0 +1,233 @@
+import type { MCMCAlgorithm } from './MCMCAlgorithm';
+import type { Distribution } from '../distributions/Distribution';
+import type { Visualizer } from '../core/Visualizer';
+import { cholesky2, logSumExp, normalizeLogWeights, systematicResample, weightsESS, type Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+import { CovarianceEstimator } from './adaptation';
+import '../core/utils'; // Import to extend Array prototype
+
+type Phase = 'reweight' | 'resample' | 'move';
+
+// Sequential Monte Carlo with adaptive tempering (Del Moral, Doucet & Jasra, 2006). A
+// particle cloud drawn from a broad Gaussian q over the plotted bounds is carried to
+// the target p through π_β ∝ q^(1-β) p^β. Every stage picks the next β so the
+// incremental weights keep an ESS of targetESS · N, resamples systematically and
+// rejuvenates the particles with random-walk Metropolis moves at the new β. The mean
+// incremental weights multiply to an estimate of Z = ∫ p(x) dx.
+//
+// Each iteration runs one phase (reweight, resample or move) so the scene can show
+// the cloud change. Once β = 1 the particles keep moving at the target and every
+// iteration adds one of them to the chain, which stays empty until then.
+export class SMCSampler implements MCMCAlgorithm {
+  name = 'Sequential Monte Carlo';
+  description = 'Carries a weighted particle cloud from a broad Gaussian to the target through tempered intermediates';
+  parameters = ['numParticles', 'targetESS', 'mcmcSteps'];
+
+  // Algorithm parameters
+  numParticles: number = 300;  // Used from the next reset
+  targetESS: number = 0.5;     // ESS fraction kept by each tempering stage
+  mcmcSteps: number = 3;       // Rejuvenation moves per particle and stage
+
+  // State
+  private chain: Vector2[] = [];
+  private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
+  private particles: Vector2[] = [];
+  private logTarget: number[] = [];   // log p at each particle
+  private logInitial: number[] = [];  // log q at each particle
+  private weights: number[] = [];
+  private beta: number = 0;
+  private logEvidence: number = 0;
+  private stage: number = 0;
+  private phase: Phase = 'reweight';
+  private acceptCount: number = 0;
+  private moveCount: number = 0;
+
+  setDistribution(distribution: Distribution): void {
+    this.distribution = distribution;
+  }
+
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
+  init(): void {
+    this.numParticles = 300;
+    this.targetESS = 0.5;
+    this.mcmcSteps = 3;
+  }
+
+  // The particles start from q, not from a given position
+  reset(): void {
+    this.chain = [];
+    this.particles = [];
+    this.logTarget = [];
+    this.logInitial = [];
+    this.weights = [];
+    this.beta = 0;
+    this.logEvidence = 0;
+    this.stage = 0;
+    this.phase = 'reweight';
+    this.acceptCount = 0;
+    this.moveCount = 0;
+  }
+
+  // Initial distribution q: independent normals centred on the bounds, SD a quarter of the width
+  private initialGaussian(distribution: Distribution): { mean: Vector2; sd: Vector2 } {
+    const { xMin, xMax, yMin, yMax } = distribution.bounds;
+    return {
+      mean: { x: (xMin + xMax) / 2, y: (yMin + yMax) / 2 },
+      sd: { x: (xMax - xMin) / 4, y: (yMax - yMin) / 4 },
+    };
+  }
+
+  // Normalized log q, so that the weights estimate Z of p itself
+  private logInitialDensity(distribution: Distribution, point: Vector2): number {
+    const { mean, sd } = this.initialGaussian(distribution);
+    const u = (point.x - mean.x) / sd.x;
+    const v = (point.y - mean.y) / sd.y;
+    return -0.5 * (u * u + v * v) - Math.log(2 * Math.PI * sd.x * sd.y);
+  }
+
+  private initParticles(distribution: Distribution): void {
+    const { mean, sd } = this.initialGaussian(distribution);
+    const n = Math.max(10, Math.round(this.numParticles));
+    this.particles = [];
+    for (let i = 0; i < n; i++) {
+      this.particles.push({ x: mean.x + sd.x * this.rng.normal(), y: mean.y + sd.y * this.rng.normal() });
+    }
+    this.logTarget = this.particles.map(p => distribution.logDensity(p));
+    this.logInitial = this.particles.map(p => this.logInitialDensity(distribution, p));
+    this.weights = this.particles.map(() => 1 / n);
+  }
+
+  // Largest step Δβ ≤ 1 - β whose incremental weights keep ESS ≥ targetESS · N (bisection)
+  private nextBeta(): number {
+    const n = this.particles.length;
+    const logRatio = this.logTarget.map((lp, i) => lp - this.logInitial[i]);
+    const ess = (delta: number) =>
+      weightsESS(normalizeLogWeights(logRatio.map((r, i) => Math.log(this.weights[i]) + delta * r)));
+    const threshold = this.targetESS * n;
+
+    let high = 1 - this.beta;
+    if (ess(high) >= threshold) return 1;
+    let low = 0;
+    for (let iter = 0; iter < 50; iter++) {
+      const mid = (low + high) / 2;
+      if (ess(mid) >= threshold) low = mid;
+      else high = mid;
+    }
+    // Always make some progress, even if a single particle dominates
+    return Math.min(1, this.beta + Math.max(low, 1e-6));
+  }
+
+  private reweight(): void {
+    const next = this.nextBeta();
+    const delta = next - this.beta;
+    const logIncrements = this.logTarget.map((lp, i) => delta * (lp - this.logInitial[i]));
+
+    // log Σ W_i w_i with the current normalized weights W_i
+    const logTerms = logIncrements.map((lw, i) => lw + Math.log(this.weights[i]));
+    this.logEvidence += logSumExp(logTerms);
+
+    this.weights = normalizeLogWeights(logTerms);
+    this.beta = next;
+    this.stage++;
+  }
+
+  private resample(): void {
+    const n = this.particles.length;
+    const indices = systematicResample(this.weights, n, this.rng);
+    this.particles = indices.map(i => this.particles[i]);
+    this.logTarget = indices.map(i => this.logTarget[i]);
+    this.logInitial = indices.map(i => this.logInitial[i]);
+    this.weights = this.particles.map(() => 1 / n);
+  }
+
+  // Random-walk Metropolis targeting π_β with proposal covariance 2.38²/d times that of the cloud
+  private move(distribution: Distribution): void {
+    const estimator = new CovarianceEstimator();
+    this.particles.forEach(p => estimator.add(p));
+    const cov = estimator.covariance();
+    const scale = (2.38 * 2.38) / 2;
+    const { l11, l21, l22 } = cholesky2({
+      xx: scale * cov.xx + 1e-9,
+      xy: scale * cov.xy,
+      yy: scale * cov.yy + 1e-9,
+    });
+    const logTempered = (lp: number, lq: number) => this.beta * lp + (1 - this.beta) * lq;
+
+    for (let s = 0; s < this.mcmcSteps; s++) {
+      for (let i = 0; i < this.particles.length; i++) {
+        const x = this.particles[i];
+        const z1 = this.rng.normal();
+        const z2 = this.rng.normal();
+        const proposal = { x: x.x + l11 * z1, y: x.y + l21 * z1 + l22 * z2 };
+        const lp = distribution.logDensity(proposal);
+        const lq = this.logInitialDensity(distribution, proposal);
+        const logAlpha = logTempered(lp, lq) - logTempered(this.logTarget[i], this.logInitial[i]);
+
+        this.moveCount++;
+        if (Math.log(this.rng.uniform()) < logAlpha) {
+          this.particles[i] = proposal;
+          this.logTarget[i] = lp;
+          this.logInitial[i] = lq;
+          this.acceptCount++;
+        }
+      }
+    }
+  }
+
+  step(visualizer: Visualizer): void {
+    if (!this.distribution) return;
+
+    if (this.particles.length === 0) {
+      this.initParticles(this.distribution);
+    } else if (this.phase === 'reweight') {
+      this.reweight();
+      this.phase = 'resample';
+    } else if (this.phase === 'resample') {
+      this.resample();
+      this.phase = 'move';
+    } else {
+      this.move(this.distribution);
+      // At the target the particles only keep moving
+      if (this.beta < 1) this.phase = 'reweight';
+    }
+
+    visualizer.queue.push({
+      type: 'particles',
+      points: this.particles.slice(),
+      weights: this.weights.slice(),
+    });
+
+    // Once the cloud targets p, report one of its (equally weighted) particles per iteration
+    if (this.beta === 1 && this.phase === 'move') {
+      const selected = this.particles[this.rng.int(this.particles.length)];
+      if (this.chain.length > 0) {
+        visualizer.queue.push({ type: 'proposal', from: this.chain[this.chain.length - 1], to: selected });
+      }
+      this.chain.push(selected);
+      visualizer.queue.push({ type: 'accept', position: selected });
+    }
+  }
+
+  getTempering(): { beta: number; logEvidence: number } {
+    return { beta: this.beta, logEvidence: this.logEvidence };
+  }
+
+  // Number of tempering stages so far
+  getStageCount(): number {
+    return this.stage;
+  }
+
+  // Acceptance rate of the rejuvenation moves
+  getAcceptanceRate(): number {
+    if (this.moveCount === 0) return 0;
+    return this.acceptCount / this.moveCount;
+  }
+
+  getChain(): Vector2[] {
+    return this.chain;
+  }
+}
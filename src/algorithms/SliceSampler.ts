@@ -0,0 +1,124 @@
+import type { MCMCAlgorithm } from './MCMCAlgorithm';
+import type { Distribution } from '../distributions/Distribution';
+import type { Visualizer } from '../core/Visualizer';
+import type { Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+
+type Axis = 'x' | 'y';
+
+// Univariate slice sampling (Neal, 2003) applied to each coordinate in turn: draw a
+// level under the density at the current point, step an interval of width w out
+// until both ends leave the slice, then shrink it around the current point until
+// a uniform draw from it lands inside the slice. Every draw is accepted.
+export class SliceSampler implements MCMCAlgorithm {
+  name = 'Slice Sampler';
+  description = 'Samples each coordinate uniformly from the slice under the density, found by stepping out and shrinking';
+  parameters = ['width', 'maxStepOut'];
+
+  // Algorithm parameters
+  width: number = 1;        // Initial interval width w
+  maxStepOut: number = 10;  // Limit m on the interval length, in widths
+  private readonly maxShrink = 100;
+
+  // State
+  private chain: Vector2[] = [];
+  private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
+  private evaluations: number = 0;
+  private totalSteps: number = 0;
+
+  setDistribution(distribution: Distribution): void {
+    this.distribution = distribution;
+  }
+
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
+  init(): void {
+    this.width = 1;
+    this.maxStepOut = 10;
+  }
+
+  reset(initialPosition?: Vector2): void {
+    const startPos = initialPosition || { x: 0, y: 0 };
+    this.chain = [startPos];
+    this.evaluations = 0;
+    this.totalSteps = 0;
+  }
+
+  step(visualizer: Visualizer): void {
+    if (!this.distribution || this.chain.length === 0) return;
+
+    const current = this.chain[this.chain.length - 1];
+
+    // Update x given y, then y given the new x (same half-steps as Gibbs)
+    const intermediate = this.sampleCoordinate(this.distribution, current, 'x', visualizer);
+    visualizer.queue.push({ type: 'proposal', from: current, to: intermediate });
+    visualizer.queue.push({ type: 'accept', position: intermediate });
+
+    const next = this.sampleCoordinate(this.distribution, intermediate, 'y', visualizer);
+    visualizer.queue.push({ type: 'proposal', from: intermediate, to: next });
+    visualizer.queue.push({ type: 'accept', position: next });
+
+    this.chain.push(next);
+    this.totalSteps++;
+  }
+
+  private sampleCoordinate(distribution: Distribution, point: Vector2, axis: Axis, visualizer: Visualizer): Vector2 {
+    const x0 = point[axis];
+    const at = (value: number): Vector2 => ({ ...point, [axis]: value });
+    const logDensity = (value: number) => {
+      this.evaluations++;
+      return distribution.logDensity(at(value));
+    };
+    // The interval as a bar through point along the axis
+    const emitInterval = (lower: number, upper: number, phase: 'initial' | 'step-out' | 'shrink') => {
+      visualizer.queue.push({ type: 'sliceInterval', min: at(lower), max: at(upper), phase });
+    };
+
+    // Slice level: log y = log p(x₀) + log u, u ~ U(0, 1)
+    const logLevel = logDensity(x0) + Math.log(this.rng.uniform());
+    visualizer.queue.push({ type: 'slice', position: point, logLevel });
+
+    // Randomly placed initial interval of width w
+    let lower = x0 - this.width * this.rng.uniform();
+    let upper = lower + this.width;
+    emitInterval(lower, upper, 'initial');
+
+    // Step out, sharing at most m widths between the two ends at random
+    let stepsLeft = Math.floor(this.maxStepOut * this.rng.uniform());
+    let stepsRight = this.maxStepOut - 1 - stepsLeft;
+    while (stepsLeft > 0 && logDensity(lower) > logLevel) {
+      lower -= this.width;
+      stepsLeft--;
+      emitInterval(lower, upper, 'step-out');
+    }
+    while (stepsRight > 0 && logDensity(upper) > logLevel) {
+      upper += this.width;
+      stepsRight--;
+      emitInterval(lower, upper, 'step-out');
+    }
+
+    // Shrink toward x₀ until a draw lands in the slice
+    for (let i = 0; i < this.maxShrink; i++) {
+      const x1 = lower + (upper - lower) * this.rng.uniform();
+      if (logDensity(x1) > logLevel) return at(x1);
+      if (x1 < x0) lower = x1;
+      else upper = x1;
+      emitInterval(lower, upper, 'shrink');
+    }
+    // Only reached when x₀ itself is outside the support
+    return point;
+  }
+
+  // Mean number of log-density evaluations per iteration
+  getEvaluationsPerStep(): number {
+    if (this.totalSteps === 0) return 0;
+    return this.evaluations / this.totalSteps;
+  }
+
+  getChain(): Vector2[] {
+    return this.chain;
+  }
+}
@@ -0,0 +1,130 @@
+import type { MCMCAlgorithm } from './MCMCAlgorithm';
+import type { Distribution } from '../distributions/Distribution';
+import type { Visualizer } from '../core/Visualizer';
+import type { Vector2 } from '../core/utils';
+import { Random, randomSeed } from '../core/random';
+import { gradientsAlong, rateBound, type SkeletonPoint } from './pdmp';
+import '../core/utils'; // Import to extend Array prototype
+
+// Zig-zag sampler (Bierkens, Fearnhead & Roberts, 2019). The velocity has components
+// ±1 and each component flips on its own, with rate λᵢ(t) = max(0, -vᵢ ∂ᵢlog π(x + v t)),
+// so the path moves diagonally and turns at right angles. Needs no refreshment. Each
+// iteration runs the process for a fixed time and records the end position.
+export class ZigZagSampler implements MCMCAlgorithm {
+  name = 'Zig-Zag Sampler';
+  description = 'Continuous-time sampler moving diagonally and flipping one velocity component at a time';
+  parameters = ['duration', 'boundHorizon'];
+
+  // Algorithm parameters
+  duration: number = 1;       // Process time per iteration (spacing of the discretized samples)
+  boundHorizon: number = 0.5; // Length of the windows over which event rates are bounded
+
+  // State
+  private chain: Vector2[] = [];
+  private distribution: Distribution | null = null;
+  private rng: Random = new Random(randomSeed());
+  private velocity: Vector2 | null = null;
+  private time: number = 0;
+  private skeleton: SkeletonPoint[] = [];
+  private eventCount: number = 0;
+  private boundViolations: number = 0;
+  private totalSteps: number = 0;
+
+  setDistribution(distribution: Distribution): void {
+    this.distribution = distribution;
+  }
+
+  setRandom(rng: Random): void {
+    this.rng = rng;
+  }
+
+  init(): void {
+    this.duration = 1;
+    this.boundHorizon = 0.5;
+  }
+
+  reset(initialPosition?: Vector2): void {
+    const startPos = initialPosition || { x: 0, y: 0 };
+    this.chain = [startPos];
+    this.velocity = null;
+    this.time = 0;
+    this.skeleton = [];
+    this.eventCount = 0;
+    this.boundViolations = 0;
+    this.totalSteps = 0;
+  }
+
+  step(visualizer: Visualizer): void {
+    if (!this.distribution || this.chain.length === 0) return;
+
+    let x = this.chain[this.chain.length - 1];
+    if (!this.velocity) {
+      this.velocity = {
+        x: this.rng.uniform() < 0.5 ? -1 : 1,
+        y: this.rng.uniform() < 0.5 ? -1 : 1,
+      };
+      this.skeleton.push({ time: 0, position: x, velocity: this.velocity, kind: 'start' });
+    }
+    let v = this.velocity;
+    const initialVelocity = v;
+    const path: Vector2[] = [x];
+    let remaining = this.duration;
+
+    while (remaining > 0) {
+      // One bound per component; the first candidate of their sum picks a component
+      const horizon = Math.min(this.boundHorizon, remaining);
+      const gradients = gradientsAlong(this.distribution, x, v, horizon);
+      const boundX = rateBound(gradients.map(g => Math.max(0, -v.x * g.x)));
+      const boundY = rateBound(gradients.map(g => Math.max(0, -v.y * g.y)));
+      const total = boundX + boundY;
+      const t = Math.min(this.rng.exponential() / total, horizon);
+
+      x = { x: x.x + v.x * t, y: x.y + v.y * t };
+      this.time += t;
+      remaining -= t;
+      if (t === horizon) continue;  // No event in this window
+
+      // Thinning: keep the candidate for component i with probability λᵢ(t) / Λᵢ
+      const g = this.distribution.gradient(x);
+      const flipX = this.rng.uniform() * total < boundX;
+      const bound = flipX ? boundX : boundY;
+      const rate = flipX ? Math.max(0, -v.x * g.x) : Math.max(0, -v.y * g.y);
+      if (rate > bound) this.boundViolations++;
+      if (this.rng.uniform() * bound < rate) {
+        v = flipX ? { x: -v.x, y: v.y } : { x: v.x, y: -v.y };
+        this.skeleton.push({ time: this.time, position: x, velocity: v, kind: 'bounce' });
+        this.eventCount++;
+        visualizer.queue.push({ type: 'bounce', position: x, kind: 'bounce' });
+        path.push(x);
+      }
+    }
+
+    path.push(x);
+    this.velocity = v;
+
+    visualizer.queue.push({ type: 'trajectory', path, momentum: initialVelocity });
+    this.chain.push(x);
+    visualizer.queue.push({ type: 'accept', position: x });
+    this.totalSteps++;
+  }
+
+  // Event-time skeleton of the whole run: the start plus every velocity flip
+  getSkeleton(): SkeletonPoint[] {
+    return this.skeleton;
+  }
+
+  // Mean number of velocity flips per iteration
+  getEventsPerStep(): number {
+    if (this.totalSteps === 0) return 0;
+    return this.eventCount / this.totalSteps;
+  }
+
+  // Thinning candidates whose true rate exceeded the local bound
+  getBoundViolations(): number {
+    return this.boundViolations;
+  }
+
+  getChain(): Vector2[] {
+    return this.chain;
+  }
+}
@@ -0,0 +1,204 @@
+import { cholesky2, type Matrix2, type Vector2 } from '../core/utils';
+import type { Random } from '../core/random';
+
+// Stan-style warmup shared by HMC and NUTS: dual-averaging step size adaptation
+// (Hoffman & Gelman, 2014) plus a metric estimated from the draws in a series of
+// doubling windows during burn-in.
+
+// Inverse mass matrix M⁻¹. The kinetic energy is K(p) = ½ pᵀ M⁻¹ p, so positions
+// move with velocity M⁻¹ p; with M⁻¹ ≈ posterior covariance all directions mix alike.
+export type Metric = Matrix2;
+
+// 'unit' keeps M⁻¹ = I, 'diag' adapts the variances, 'dense' the full covariance
+export type MetricType = 'unit' | 'diag' | 'dense';
+
+export const UNIT_METRIC: Metric = { xx: 1, xy: 0, yy: 1 };
+
+export function kineticEnergy(p: Vector2, metric: Metric): number {
+  return 0.5 * (metric.xx * p.x * p.x + 2 * metric.xy * p.x * p.y + metric.yy * p.y * p.y);
+}
+
+// Position velocity M⁻¹ p
+export function velocity(p: Vector2, metric: Metric): Vector2 {
+  return {
+    x: metric.xx * p.x + metric.xy * p.y,
+    y: metric.xy * p.x + metric.yy * p.y,
+  };
+}
+
+// Momentum p ~ N(0, M) with M = (M⁻¹)⁻¹, via the Cholesky factor of M
+export function sampleMomentum(rng: Random, metric: Metric): Vector2 {
+  const det = metric.xx * metric.yy - metric.xy * metric.xy;
+  const { l11, l21, l22 } = cholesky2({ xx: metric.yy / det, xy: -metric.xy / det, yy: metric.xx / det });
+  const z1 = rng.normal();
+  const z2 = rng.normal();
+  return { x: l11 * z1, y: l21 * z1 + l22 * z2 };
+}
+
+export function formatMetric(metric: Metric): string {
+  if (metric.xy === 0) return `diag(${metric.xx.toFixed(3)}, ${metric.yy.toFixed(3)})`;
+  return `[${metric.xx.toFixed(3)} ${metric.xy.toFixed(3)}; ${metric.xy.toFixed(3)} ${metric.yy.toFixed(3)}]`;
+}
+
+// Metric estimation windows [start, end) over warmup iterations. As in Stan: a fast
+// initial buffer (75), windows of 25, 50, 100, ... and a terminal buffer (50) that
+// only tunes the step size; scaled to 15% / 75% / 10% for short warmups.
+export function warmupWindows(numWarmup: number): { start: number; end: number }[] {
+  if (numWarmup < 20) return [];
+  let initBuffer = 75;
+  let termBuffer = 50;
+  let baseWindow = 25;
+  if (initBuffer + termBuffer + baseWindow > numWarmup) {
+    initBuffer = Math.floor(0.15 * numWarmup);
+    termBuffer = Math.floor(0.1 * numWarmup);
+    baseWindow = numWarmup - initBuffer - termBuffer;
+  }
+
+  const windows: { start: number; end: number }[] = [];
+  const lastEnd = numWarmup - termBuffer;
+  let start = initBuffer;
+  let size = baseWindow;
+  while (start < lastEnd) {
+    let end = start + size;
+    // Stretch the window to the terminal buffer when the next, doubled one would not fit
+    if (end + 2 * size > lastEnd) end = lastEnd;
+    windows.push({ start, end });
+    start = end;
+    size *= 2;
+  }
+  return windows;
+}
+
+// Nesterov dual averaging of log ε toward a target mean acceptance statistic
+export class DualAveraging {
+  private readonly gamma = 0.05;
+  private readonly t0 = 10;
+  private readonly kappa = 0.75;
+
+  private counter = 0;
+  private sBar = 0;
+  private xBar = 0;
+  private mu = 0;
+
+  restart(epsilon: number): void {
+    this.counter = 0;
+    this.sBar = 0;
+    this.xBar = 0;
+    this.mu = Math.log(10 * epsilon);
+  }
+
+  // Record one acceptance statistic and return the next step size to try
+  learn(acceptStat: number, target: number): number {
+    this.counter++;
+    const stat = Math.min(1, isNaN(acceptStat) ? 0 : acceptStat);
+    const eta = 1 / (this.counter + this.t0);
+    this.sBar = (1 - eta) * this.sBar + eta * (target - stat);
+    const x = this.mu - (this.sBar * Math.sqrt(this.counter)) / this.gamma;
+    const xEta = Math.pow(this.counter, -this.kappa);
+    this.xBar = xEta * x + (1 - xEta) * this.xBar;
+    return Math.exp(x);
+  }
+
+  // Averaged step size used once warmup ends
+  final(): number {
+    return Math.exp(this.xBar);
+  }
+}
+
+// Running mean and covariance (Welford) of a stream of draws
+export class CovarianceEstimator {
+  private n = 0;
+  private mean = { x: 0, y: 0 };
+  private m2 = { xx: 0, xy: 0, yy: 0 };
+
+  add(point: Vector2): void {
+    this.n++;
+    const dx = point.x - this.mean.x;
+    const dy = point.y - this.mean.y;
+    this.mean.x += dx / this.n;
+    this.mean.y += dy / this.n;
+    this.m2.xx += dx * (point.x - this.mean.x);
+    this.m2.xy += dx * (point.y - this.mean.y);
+    this.m2.yy += dy * (point.y - this.mean.y);
+  }
+
+  get count(): number {
+    return this.n;
+  }
+
+  // Unbiased sample covariance
+  covariance(): Metric {
+    const n = this.n;
+    if (n < 2) return { ...UNIT_METRIC };
+    return { xx: this.m2.xx / (n - 1), xy: this.m2.xy / (n - 1), yy: this.m2.yy / (n - 1) };
+  }
+
+  // Sample covariance shrunk toward 1e-3·I as Stan does, so a short window cannot
+  // produce a singular metric
+  estimate(type: MetricType): Metric {
+    const n = this.n;
+    if (n < 2) return { ...UNIT_METRIC };
+    const w = n / (n + 5);
+    const shrink = 1e-3 * (5 / (n + 5));
+    return {
+      xx: (w * this.m2.xx) / (n - 1) + shrink,
+      xy: type === 'dense' ? (w * this.m2.xy) / (n - 1) : 0,
+      yy: (w * this.m2.yy) / (n - 1) + shrink,
+    };
+  }
+
+  reset(): void {
+    this.n = 0;
+    this.mean = { x: 0, y: 0 };
+    this.m2 = { xx: 0, xy: 0, yy: 0 };
+  }
+}
+
+// Warmup state of one chain. Call restart() when the chain is reset and update()
+// after every transition; the sampler reads back epsilon and metric.
+export class WarmupAdapter {
+  epsilon: number = 0.1;
+  metric: Metric = { ...UNIT_METRIC };
+
+  private stepSize = new DualAveraging();
+  private covariance = new CovarianceEstimator();
+
+  restart(epsilon: number): void {
+    this.epsilon = epsilon;
+    this.metric = { ...UNIT_METRIC };
+    this.stepSize.restart(epsilon);
+    this.covariance.reset();
+  }
+
+  // Adapt after transition `iteration` (0-based) of a warmup of numWarmup iterations,
+  // given its acceptance statistic and the new chain state
+  update(
+    iteration: number,
+    numWarmup: number,
+    acceptStat: number,
+    position: Vector2,
+    targetAccept: number,
+    metricType: MetricType
+  ): void {
+    if (iteration >= numWarmup) return;
+
+    this.epsilon = this.stepSize.learn(acceptStat, targetAccept);
+
+    if (metricType !== 'unit') {
+      const window = warmupWindows(numWarmup).find(w => iteration >= w.start && iteration < w.end);
+      if (window) {
+        this.covariance.add(position);
+        if (iteration === window.end - 1) {
+          // New metric: restart step size adaptation around the current step size
+          this.metric = this.covariance.estimate(metricType);
+          this.covariance.reset();
+          this.stepSize.restart(this.epsilon);
+        }
+      }
+    }
+
+    if (iteration === numWarmup - 1) {
+      this.epsilon = this.stepSize.final();
+    }
+  }
+}
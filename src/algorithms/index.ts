@@ -1,11 +1,24 @@
 import { RandomWalkMH } from './RandomWalkMH';
+import { AdaptiveMetropolis } from './AdaptiveMetropolis';
+import { MultipleTryMetropolis } from './MultipleTryMetropolis';
+import { DelayedRejectionMH } from './DelayedRejectionMH';
 import { HamiltonianMC } from './HamiltonianMC';
 import { NUTS } from './NUTS';
 import { GibbsSampler } from './GibbsSampler';
+import { SliceSampler } from './SliceSampler';
+import { HyperrectangleSliceSampler } from './HyperrectangleSliceSampler';
+import { EllipticalSliceSampler } from './EllipticalSliceSampler';
+import { EnsembleSampler } from './EnsembleSampler';
+import { DifferentialEvolutionMC } from './DifferentialEvolutionMC';
 import { LangevinMC } from './LangevinMC';
+import { BouncyParticleSampler } from './BouncyParticleSampler';
+import { ZigZagSampler } from './ZigZagSampler';
+import { ParallelTempering } from './ParallelTempering';
+import { ImportanceSampler } from './ImportanceSampler';
+import { SMCSampler } from './SMCSampler';
 import type { MCMCAlgorithm } from './MCMCAlgorithm';
 
-export type AlgorithmType = 'rwmh' | 'hmc' | 'nuts' | 'gibbs' | 'mala';
+export type AlgorithmType = 'rwmh' | 'am' | 'mtm' | 'drmh' | 'hmc' | 'nuts' | 'gibbs' | 'slice' | 'hrslice' | 'elliptical' | 'ensemble' | 'demc' | 'mala' | 'bps' | 'zigzag' | 'pt' | 'is' | 'smc';
 
 export interface AlgorithmConfig {
   key: AlgorithmType;
@@ -19,6 +32,21 @@ export const ALGORITHMS: AlgorithmConfig[] = [
     name: 'Random Walk MH',
     create: () => new RandomWalkMH(),
   },
+  {
+    key: 'am',
+    name: 'Adaptive Metropolis',
+    create: () => new AdaptiveMetropolis(),
+  },
+  {
+    key: 'mtm',
+    name: 'Multiple-Try Metropolis',
+    create: () => new MultipleTryMetropolis(),
+  },
+  {
+    key: 'drmh',
+    name: 'Delayed Rejection',
+    create: () => new DelayedRejectionMH(),
+  },
   {
     key: 'hmc',
     name: 'Hamiltonian MC',
@@ -34,11 +62,61 @@ export const ALGORITHMS: AlgorithmConfig[] = [
     name: 'Gibbs Sampler',
     create: () => new GibbsSampler(),
   },
+  {
+    key: 'slice',
+    name: 'Slice Sampler',
+    create: () => new SliceSampler(),
+  },
+  {
+    key: 'hrslice',
+    name: 'Hyperrectangle Slice',
+    create: () => new HyperrectangleSliceSampler(),
+  },
+  {
+    key: 'elliptical',
+    name: 'Elliptical Slice',
+    create: () => new EllipticalSliceSampler(),
+  },
+  {
+    key: 'ensemble',
+    name: 'Ensemble (emcee)',
+    create: () => new EnsembleSampler(),
+  },
+  {
+    key: 'demc',
+    name: 'Differential Evolution MC',
+    create: () => new DifferentialEvolutionMC(),
+  },
   {
     key: 'mala',
     name: 'Langevin (MALA)',
     create: () => new LangevinMC(),
   },
+  {
+    key: 'bps',
+    name: 'Bouncy Particle',
+    create: () => new BouncyParticleSampler(),
+  },
+  {
+    key: 'zigzag',
+    name: 'Zig-Zag',
+    create: () => new ZigZagSampler(),
+  },
+  {
+    key: 'pt',
+    name: 'Parallel Tempering',
+    create: () => new ParallelTempering(),
+  },
+  {
+    key: 'is',
+    name: 'Importance Sampling',
+    create: () => new ImportanceSampler(),
+  },
+  {
+    key: 'smc',
+    name: 'Sequential Monte Carlo',
+    create: () => new SMCSampler(),
+  },
 ];
 
 export function createAlgorithm(key: AlgorithmType): MCMCAlgorithm {
@@ -47,5 +125,5 @@ export function createAlgorithm(key: AlgorithmType): MCMCAlgorithm {
   return config.create();
 }
 
-export { RandomWalkMH, HamiltonianMC, NUTS, GibbsSampler, LangevinMC };
+export { RandomWalkMH, AdaptiveMetropolis, MultipleTryMetropolis, DelayedRejectionMH, HamiltonianMC, NUTS, GibbsSampler, SliceSampler, HyperrectangleSliceSampler, EllipticalSliceSampler, EnsembleSampler, DifferentialEvolutionMC, LangevinMC, BouncyParticleSampler, ZigZagSampler, ParallelTempering, ImportanceSampler, SMCSampler };
 export type { MCMCAlgorithm } from './MCMCAlgorithm';
@@ -0,0 +1,36 @@
+import type { Vector2 } from '../core/utils';
+import type { Distribution } from '../distributions/Distribution';
+
+// Shared by the piecewise deterministic samplers (bouncy particle and zig-zag). The
+// position moves in straight lines x + v t; events with rate λ(t) change the velocity.
+// Event times are drawn by thinning (Lewis & Shedler, 1979): candidates from a
+// constant bound Λ ≥ λ over a short window, each kept with probability λ(t) / Λ.
+
+// One event of the continuous-time path, with the state right after it. The
+// skeleton (start plus every event) determines the whole path.
+export interface SkeletonPoint {
+  time: number;
+  position: Vector2;
+  velocity: Vector2;
+  kind: 'start' | 'bounce' | 'refresh';
+}
+
+const BOUND_POINTS = 5;     // Gradient evaluations per bounding window
+const BOUND_SAFETY = 1.5;   // Factor on the largest sampled rate
+const BOUND_FLOOR = 0.5;    // Keeps Λ > 0 where the sampled rates all vanish
+
+// Gradients of log π at evenly spaced points of the segment x + v t, t ∈ [0, horizon]
+export function gradientsAlong(distribution: Distribution, x: Vector2, v: Vector2, horizon: number): Vector2[] {
+  const gradients: Vector2[] = [];
+  for (let k = 0; k < BOUND_POINTS; k++) {
+    const t = (k / (BOUND_POINTS - 1)) * horizon;
+    gradients.push(distribution.gradient({ x: x.x + v.x * t, y: x.y + v.y * t }));
+  }
+  return gradients;
+}
+
+// Thinning bound from rates sampled along the window. This is not a guaranteed bound
+// for arbitrary targets, so samplers count the candidates where λ exceeded it.
+export function rateBound(rates: number[]): number {
+  return BOUND_SAFETY * Math.max(...rates) + BOUND_FLOOR;
+}
@@ -0,0 +1,134 @@
+import { useRef, useEffect } from 'react';
+import type { ChainDiagnostics } from '../core/diagnostics';
+
+interface AutocorrelationPanelProps {
+  diagnostics: ChainDiagnostics | null;
+  labels?: { x: string; y: string };
+  scale?: number;
+}
+
+const BASE_WIDTH = 220;
+const BASE_HEIGHT = 160;
+
+export function AutocorrelationPanel({ diagnostics, labels = { x: 'X', y: 'Y' }, scale = 1 }: AutocorrelationPanelProps) {
+  const CANVAS_WIDTH = BASE_WIDTH * scale;
+  const CANVAS_HEIGHT = BASE_HEIGHT * scale;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Handle high-DPI displays
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = CANVAS_WIDTH * dpr;
+    canvas.height = CANVAS_HEIGHT * dpr;
+    ctx.scale(dpr, dpr);
+
+    const width = CANVAS_WIDTH;
+    const height = CANVAS_HEIGHT;
+    const panelHeight = (height - 30) / 2;
+
+    // Clear canvas
+    ctx.clearRect(0, 0, width, height);
+
+    const startX = 30;
+    const chartWidth = width - 40;
+
+    // ρ is shown on [-0.5, 1]; more negative values are clipped
+    const rhoMin = -0.5;
+    const rhoMax = 1;
+
+    // Draw a single ACF panel
+    const drawPanel = (yOffset: number, label: string, acf: Float64Array | null) => {
+      const toPixelY = (rho: number) => {
+        const clamped = Math.max(rhoMin, Math.min(rhoMax, rho));
+        return yOffset + panelHeight - ((clamped - rhoMin) / (rhoMax - rhoMin)) * (panelHeight - 15);
+      };
+      const zeroY = toPixelY(0);
+
+      // Zero line
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(startX, zeroY);
+      ctx.lineTo(startX + chartWidth, zeroY);
+      ctx.stroke();
+
+      if (acf && acf.length > 0) {
+        const barWidth = chartWidth / acf.length;
+
+        // Approximate 95% band for white noise: ±1.96/√n
+        if (diagnostics && diagnostics.n > 0) {
+          const band = 1.96 / Math.sqrt(diagnostics.n);
+          ctx.fillStyle = 'rgba(96, 165, 250, 0.15)';
+          ctx.fillRect(startX, toPixelY(band), chartWidth, toPixelY(-band) - toPixelY(band));
+        }
+
+        acf.forEach((rho, lag) => {
+          const x = startX + lag * barWidth;
+          const y = toPixelY(rho);
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+          ctx.fillRect(x, Math.min(y, zeroY), Math.max(1, barWidth - 1), Math.abs(zeroY - y));
+        });
+      }
+
+      // Label
+      ctx.fillStyle = '#666';
+      ctx.font = '12px system-ui, -apple-system, sans-serif';
+      ctx.fillText(label, 8, yOffset + 12);
+
+      // Axis labels
+      ctx.font = '10px system-ui, -apple-system, sans-serif';
+      ctx.fillText('0', startX, yOffset + panelHeight + 10);
+      ctx.textAlign = 'right';
+      ctx.fillText(`lag ${acf ? acf.length - 1 : 0}`, width - 8, yOffset + panelHeight + 10);
+      ctx.textAlign = 'left';
+    };
+
+    // Draw X autocorrelation (top)
+    drawPanel(5, labels.x, diagnostics?.acfX ?? null);
+
+    // Draw Y autocorrelation (bottom)
+    drawPanel(panelHeight + 20, labels.y, diagnostics?.acfY ?? null);
+
+    }, [diagnostics, labels.x, labels.y, scale, CANVAS_WIDTH, CANVAS_HEIGHT]);
+
+  return (
+    <div
+      style={{
+        background: 'rgba(17, 17, 17, 0.95)',
+        borderRadius: 8,
+        padding: 8,
+        border: '1px solid #222',
+        position: 'relative',
+      }}
+    >
+      <div
+        style={{
+          position: 'absolute',
+          top: 8,
+          right: 8,
+          textAlign: 'right',
+          fontSize: 10,
+          fontFamily: 'system-ui, -apple-system, sans-serif',
+          color: '#666',
+        }}
+      >
+        ACF
+      </div>
+      <canvas
+        ref={canvasRef}
+        style={{
+          display: 'block',
+          borderRadius: 4,
+          width: CANVAS_WIDTH,
+          height: CANVAS_HEIGHT,
+        }}
+      />
+    </div>
+  );
+}
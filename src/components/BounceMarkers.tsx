@@ -0,0 +1,34 @@
+import type { Distribution } from '../distributions/Distribution';
+import type { BounceEvent } from '../core/Visualizer';
+import { calcZ } from '../core/utils';
+
+interface BounceMarkersProps {
+  bounces: BounceEvent[];  // Velocity changes of the current step (Visualizer.bounces)
+  distribution: Distribution;
+  maxDensity: number;
+  sphereSize?: number;
+  show3D?: boolean;
+}
+
+// Corners of a piecewise deterministic path: bounces off the target's level sets (or
+// zig-zag flips) in cyan, refreshments of the velocity in violet
+export function BounceMarkers({ bounces, distribution, maxDensity, sphereSize = 1, show3D = true }: BounceMarkersProps) {
+  if (bounces.length === 0) return null;
+
+  return (
+    <group>
+      {bounces.map((bounce, i) => {
+        const { position } = bounce;
+        const z = calcZ(distribution.density(position) / maxDensity, show3D) + 0.02;
+        const color = bounce.kind === 'bounce' ? '#22d3ee' : '#a78bfa';
+
+        return (
+          <mesh key={`bounce-${i}`} position={[position.x, z, position.y]}>
+            <sphereGeometry args={[0.055 * sphereSize, 12, 12]} />
+            <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.6} />
+          </mesh>
+        );
+      })}
+    </group>
+  );
+}
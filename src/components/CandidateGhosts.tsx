@@ -0,0 +1,53 @@
+import type { Distribution } from '../distributions/Distribution';
+import type { CandidateSet } from '../core/Visualizer';
+import { ProposalGhost } from './ProposalGhost';
+
+interface CandidateGhostsProps {
+  candidates: CandidateSet | null;  // Candidates of the current step (Visualizer.candidates)
+  distribution: Distribution;
+  maxDensity: number;
+  show3D?: boolean;
+}
+
+// Multiple-try Metropolis: the candidates that were not selected, sized by their
+// selection weight (an average candidate has the size of a single proposal), and the
+// reference set drawn around the selected one in grey. The selected candidate is the
+// regular proposal ghost.
+export function CandidateGhosts({ candidates, distribution, maxDensity, show3D = true }: CandidateGhostsProps) {
+  if (!candidates) return null;
+
+  const k = candidates.points.length;
+
+  return (
+    <group>
+      {candidates.points.map((point, i) => {
+        if (i === candidates.selected) return null;
+        const scale = Math.min(2, Math.max(0.35, Math.sqrt(candidates.weights[i] * k)));
+        return (
+          <ProposalGhost
+            key={`candidate-${i}`}
+            position={point}
+            distribution={distribution}
+            maxDensity={maxDensity}
+            show3D={show3D}
+            pendingColor="#fde68a"
+            scale={scale}
+            opacity={0.6}
+          />
+        );
+      })}
+      {candidates.references.map((point, i) => (
+        <ProposalGhost
+          key={`reference-${i}`}
+          position={point}
+          distribution={distribution}
+          maxDensity={maxDensity}
+          show3D={show3D}
+          pendingColor="#9ca3af"
+          scale={0.5}
+          opacity={0.5}
+        />
+      ))}
+    </group>
+  );
+}
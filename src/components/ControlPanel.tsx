@@ -1,39 +1,41 @@
 import { useEffect, useRef, useState } from 'react';
 import { Pane } from 'tweakpane';
 import type { Simulation } from '../core/Simulation';
-import { ALGORITHMS, createAlgorithm, type AlgorithmType } from '../algorithms';
+import { randomSeed } from '../core/random';
+import { ALGORITHMS, type AlgorithmType } from '../algorithms';
+import type { ParameterValue } from '../algorithms/MCMCAlgorithm';
 import type { RandomWalkMH } from '../algorithms/RandomWalkMH';
+import type { AdaptiveMetropolis } from '../algorithms/AdaptiveMetropolis';
+import type { MultipleTryMetropolis } from '../algorithms/MultipleTryMetropolis';
+import type { DelayedRejectionMH } from '../algorithms/DelayedRejectionMH';
 import type { HamiltonianMC } from '../algorithms/HamiltonianMC';
 import type { NUTS } from '../algorithms/NUTS';
+import { formatMetric } from '../algorithms/adaptation';
 import type { GibbsSampler } from '../algorithms/GibbsSampler';
+import type { SliceSampler } from '../algorithms/SliceSampler';
+import type { HyperrectangleSliceSampler } from '../algorithms/HyperrectangleSliceSampler';
+import type { EllipticalSliceSampler } from '../algorithms/EllipticalSliceSampler';
+import type { EnsembleSampler } from '../algorithms/EnsembleSampler';
+import type { DifferentialEvolutionMC } from '../algorithms/DifferentialEvolutionMC';
 import type { LangevinMC } from '../algorithms/LangevinMC';
-import { StandardGaussian } from '../distributions/StandardGaussian';
-import { DonutDistribution } from '../distributions/DonutDistribution';
-import { BimodalDistribution } from '../distributions/BimodalDistribution';
-import { BananaDistribution } from '../distributions/BananaDistribution';
-import { RastriginDistribution } from '../distributions/RastriginDistribution';
-import { RosenbrockDistribution } from '../distributions/RosenbrockDistribution';
-import { AckleyDistribution } from '../distributions/AckleyDistribution';
-import { SquiggleDistribution } from '../distributions/SquiggleDistribution';
-import { MultimodalDistribution } from '../distributions/MultimodalDistribution';
-import { QuarticGaussian } from '../distributions/QuarticGaussian';
-
-// Distribution presets
-const DISTRIBUTIONS = {
-  gaussian: () => new StandardGaussian(),
-  quartic: () => new QuarticGaussian(),
-  donut: () => new DonutDistribution(2, 0.4),
-  bimodal: () => new BimodalDistribution(3, 0.8),
-  banana: () => new BananaDistribution(1, 1),
-  rastrigin: () => new RastriginDistribution(10, 0.1),
-  rosenbrock: () => new RosenbrockDistribution(1, 100, 0.02),
-  ackley: () => new AckleyDistribution(20, 0.2, 2 * Math.PI, 0.3),
-  squiggle: () => new SquiggleDistribution(5),
-  multimodal: () => new MultimodalDistribution(),
-};
+import type { BouncyParticleSampler } from '../algorithms/BouncyParticleSampler';
+import type { ZigZagSampler } from '../algorithms/ZigZagSampler';
+import type { ParallelTempering } from '../algorithms/ParallelTempering';
+import type { ImportanceSampler } from '../algorithms/ImportanceSampler';
+import type { SMCSampler } from '../algorithms/SMCSampler';
+import { createDistribution, type Distribution, type DistributionType } from '../distributions';
+import { CustomDistribution, DEFAULT_CUSTOM_EXPRESSION, type ExpressionMode } from '../distributions/CustomDistribution';
+import { ExpressionError } from '../core/expression';
+import { MultimodalDistribution, DEFAULT_MIXTURE, type MixtureComponent } from '../distributions/MultimodalDistribution';
+import { FunnelDistribution } from '../distributions/FunnelDistribution';
+import { CorrelatedGaussian } from '../distributions/CorrelatedGaussian';
+import { StudentTDistribution } from '../distributions/StudentTDistribution';
+import { GPClassificationDistribution } from '../distributions/GPClassificationDistribution';
+import { PosteriorDistribution } from '../distributions/PosteriorDistribution';
+import { DatasetError } from '../distributions/datasets';
 
 // Map distribution names to keys
-const DISTRIBUTION_NAME_TO_KEY: Record<string, keyof typeof DISTRIBUTIONS> = {
+const DISTRIBUTION_NAME_TO_KEY: Record<string, DistributionType> = {
   'Standard Gaussian': 'gaussian',
   'Quartic Gaussian': 'quartic',
   'Donut': 'donut',
@@ -44,17 +46,50 @@ const DISTRIBUTION_NAME_TO_KEY: Record<string, keyof typeof DISTRIBUTIONS> = {
   'Ackley': 'ackley',
   'Squiggle': 'squiggle',
   'Multimodal': 'multimodal',
+  "Neal's Funnel": 'funnel',
+  'Correlated Gaussian': 'correlated',
+  'Student-t': 'studentt',
+  'Eight Schools': 'eightschools',
+  'Linear Regression': 'linreg',
+  'Logistic Regression': 'logreg',
+  'Normal Model': 'normal',
+  'GP Classification': 'gpc',
+  'Custom': 'custom',
 };
 
 // Map algorithm names to keys
 const ALGORITHM_NAME_TO_KEY: Record<string, AlgorithmType> = {
   'Random Walk Metropolis-Hastings': 'rwmh',
+  'Adaptive Metropolis': 'am',
+  'Multiple-Try Metropolis': 'mtm',
+  'Delayed Rejection Metropolis': 'drmh',
   'Hamiltonian Monte Carlo': 'hmc',
   'No-U-Turn Sampler': 'nuts',
   'Gibbs Sampler': 'gibbs',
+  'Slice Sampler': 'slice',
+  'Hyperrectangle Slice Sampler': 'hrslice',
+  'Elliptical Slice Sampler': 'elliptical',
+  'Affine-Invariant Ensemble': 'ensemble',
+  'Differential Evolution MC': 'demc',
   'Metropolis-adjusted Langevin': 'mala',
+  'Bouncy Particle Sampler': 'bps',
+  'Zig-Zag Sampler': 'zigzag',
+  'Parallel Tempering': 'pt',
+  'Importance Sampling': 'is',
+  'Sequential Monte Carlo': 'smc',
 };
 
+// Trigger a browser download of CSV text
+function downloadCSV(csv: string, filename: string): void {
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 interface ControlPanelProps {
   simulation: Simulation;
   onDistributionChange?: () => void;
@@ -109,27 +144,41 @@ export function ControlPanel({ simulation, onDistributionChange, collapsed = fal
     });
 
     simFolder.addButton({ title: 'Export samples' }).on('click', () => {
-      const samples = simulation.visualizer.allSamples;
+      const samples = simulation.getCombinedSamples();
       if (samples.length === 0) return;
 
-      // Build CSV content
-      const header = 'x,y\n';
-      const rows = samples.map(s => `${s.x},${s.y}`).join('\n');
-      const csv = header + rows;
+      // Build CSV content (with a chain column when running several chains)
+      let csv: string;
+      if (simulation.chains.length > 1) {
+        const header = 'chain,x,y\n';
+        const rows = simulation.chains.flatMap((chain, c) =>
+          chain.algorithm.getChain().map(s => `${c},${s.x},${s.y}`)
+        ).join('\n');
+        csv = header + rows;
+      } else {
+        const header = 'x,y\n';
+        const rows = samples.map(s => `${s.x},${s.y}`).join('\n');
+        csv = header + rows;
+      }
 
       // Build filename with distribution and algorithm
       const distName = simulation.distribution?.name?.toLowerCase().replace(/\s+/g, '_') || 'unknown';
       const algName = simulation.algorithm?.name?.toLowerCase().replace(/\s+/g, '_') || 'unknown';
-      const filename = `${distName}_${algName}_n${samples.length}.csv`;
+      const filename = `${distName}_${algName}_n${samples.length}`;
+
+      downloadCSV(csv, `${filename}.csv`);
 
-      // Trigger download
-      const blob = new Blob([csv], { type: 'text/csv' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename;
-      a.click();
-      URL.revokeObjectURL(url);
+      // Continuous-time samplers: the event skeleton the samples were discretized from
+      if (simulation.algorithm?.getSkeleton) {
+        const header = simulation.chains.length > 1 ? 'chain,time,x,y,vx,vy,event\n' : 'time,x,y,vx,vy,event\n';
+        const rows = simulation.chains.flatMap((chain, c) =>
+          (chain.algorithm.getSkeleton?.() ?? []).map(e => {
+            const row = `${e.time},${e.position.x},${e.position.y},${e.velocity.x},${e.velocity.y},${e.kind}`;
+            return simulation.chains.length > 1 ? `${c},${row}` : row;
+          })
+        ).join('\n');
+        downloadCSV(header + rows, `${filename}_skeleton.csv`);
+      }
     });
 
     simFolder.addBinding(simulation, 'delay', {
@@ -139,6 +188,56 @@ export function ControlPanel({ simulation, onDistributionChange, collapsed = fal
       label: 'Delay (ms)',
     });
 
+    // Fast-forward: many iterations per frame, only the trail and position are drawn
+    simFolder.addBinding(simulation, 'turbo', { label: 'Turbo' });
+
+    simFolder.addBinding(simulation, 'stepsPerFrame', {
+      min: 1,
+      max: 2000,
+      step: 1,
+      label: 'Steps / frame',
+    });
+
+    const runParams = { count: 10000 };
+    simFolder.addBinding(runParams, 'count', {
+      min: 100,
+      max: 100000,
+      step: 100,
+      label: 'Run N',
+    });
+
+    simFolder.addButton({ title: 'Run N samples' }).on('click', () => {
+      simulation.runSamples(runParams.count);
+    });
+
+    simFolder.addBinding(simulation, 'numChains', {
+      min: 1,
+      max: 8,
+      step: 1,
+      label: 'Chains',
+    }).on('change', (e: { value: number }) => {
+      simulation.setNumChains(e.value);
+    });
+
+    // Same seed, same run: changing it restarts every chain from the new streams
+    const seedBinding = simFolder.addBinding(simulation, 'seed', {
+      min: 0,
+      max: 4294967295,
+      step: 1,
+      format: (v: number) => v.toFixed(0),
+      label: 'Seed',
+    }).on('change', (e: { value: number }) => {
+      // refresh() after 'New seed' re-emits the value that is already set
+      if (e.value !== simulation.seed) {
+        simulation.setSeed(e.value);
+      }
+    });
+
+    simFolder.addButton({ title: 'New seed' }).on('click', () => {
+      simulation.setSeed(randomSeed());
+      seedBinding.refresh();
+    });
+
     simFolder.addBinding(simulation, 'totalSamples', {
       readonly: true,
       label: 'Total Samples',
@@ -164,14 +263,222 @@ export function ControlPanel({ simulation, onDistributionChange, collapsed = fal
         'Rosenbrock': 'rosenbrock',
         'Rastrigin': 'rastrigin',
         'Ackley': 'ackley',
+        "Neal's Funnel": 'funnel',
+        'Correlated Gaussian': 'correlated',
+        'Student-t': 'studentt',
+        'Eight Schools': 'eightschools',
+        'Linear Regression': 'linreg',
+        'Logistic Regression': 'logreg',
+        'Normal Model': 'normal',
+        'GP Classification': 'gpc',
+        'Custom': 'custom',
       },
-    }).on('change', (e: { value: keyof typeof DISTRIBUTIONS }) => {
-      const newDist = DISTRIBUTIONS[e.value]();
+    }).on('change', (e: { value: DistributionType }) => {
+      customFolder.hidden = e.value !== 'custom';
+      if (e.value === 'custom') {
+        applyCustom();
+        return;
+      }
+      const newDist = createDistribution(e.value);
       simulation.setDistribution(newDist);
       simulation.reset();
+      rebuildTargetFolders();
       onDistributionChange?.();
     });
 
+    // Shape parameter of the tunable pathology targets; changes apply without resetting the chains
+    let shapeFolder = distFolder.addFolder({ title: 'Shape' });
+
+    const rebuildShape = () => {
+      shapeFolder.dispose();
+      const dist = simulation.distribution;
+      shapeFolder = distFolder.addFolder({ title: 'Shape', hidden: true });
+
+      const addShapeParam = (value: number, label: string, range: { min: number; max: number; step: number }, create: (value: number) => Distribution) => {
+        shapeFolder.hidden = false;
+        shapeFolder.addBinding({ value }, 'value', { ...range, label })
+          .on('change', (e: { value: number }) => simulation.updateDistribution(create(e.value)));
+      };
+
+      if (dist instanceof CorrelatedGaussian) {
+        addShapeParam(dist.rho, 'Correlation ρ', { min: -0.999, max: 0.999, step: 0.001 }, v => new CorrelatedGaussian(v));
+      } else if (dist instanceof StudentTDistribution) {
+        addShapeParam(dist.nu, 'Degrees ν', { min: 1, max: 30, step: 0.5 }, v => new StudentTDistribution(v));
+      } else if (dist instanceof FunnelDistribution) {
+        addShapeParam(dist.scale, 'Log-scale σ', { min: 0.5, max: 5, step: 0.1 }, v => new FunnelDistribution(v));
+      } else if (dist instanceof GPClassificationDistribution) {
+        addShapeParam(dist.rho, 'Prior correlation ρ', { min: -0.99, max: 0.99, step: 0.01 }, v => new GPClassificationDistribution(v));
+      }
+    };
+
+    // Data of the posterior targets: paste or load a CSV to replace the bundled dataset
+    let dataFolder = distFolder.addFolder({ title: 'Data' });
+    const dataParams = { csv: '', format: '', error: '' };
+
+    const applyData = (csv: string) => {
+      const current = simulation.distribution;
+      if (!(current instanceof PosteriorDistribution)) return;
+      try {
+        simulation.setDistribution(current.withData(csv));
+        simulation.reset();
+        dataParams.error = '';
+        rebuildData();
+        onDistributionChange?.();
+      } catch (error) {
+        // Keep the previous data and show what is wrong
+        if (!(error instanceof DatasetError)) throw error;
+        showDataError(error.message);
+      }
+    };
+
+    const showDataError = (message: string) => {
+      dataParams.error = message;
+      rebuildData();
+    };
+
+    const rebuildData = () => {
+      dataFolder.dispose();
+      const dist = simulation.distribution;
+      dataFolder = distFolder.addFolder({ title: 'Data', hidden: !(dist instanceof PosteriorDistribution) });
+      if (!(dist instanceof PosteriorDistribution)) return;
+
+      dataParams.csv = dist.csv;
+      dataParams.format = dist.format;
+      dataFolder.addBinding(dataParams, 'csv', { readonly: true, multiline: true, rows: 6, label: 'CSV' });
+      dataFolder.addBinding(dataParams, 'format', { readonly: true, label: 'Columns' });
+
+      dataFolder.addButton({ title: 'Paste CSV' }).on('click', () => {
+        navigator.clipboard.readText().then(applyData, () => showDataError('Clipboard is not accessible'));
+      });
+
+      dataFolder.addButton({ title: 'Load CSV file' }).on('click', () => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.csv,.txt,text/csv,text/plain';
+        input.onchange = () => {
+          input.files?.[0]?.text().then(applyData, () => showDataError('Could not read the file'));
+        };
+        input.click();
+      });
+
+      dataFolder.addButton({ title: 'Reset data' }).on('click', () => {
+        const bundled = createDistribution(distParams.selected);
+        if (bundled instanceof PosteriorDistribution) applyData(bundled.csv);
+      });
+
+      dataFolder.addBinding(dataParams, 'error', {
+        readonly: true,
+        multiline: true,
+        rows: 2,
+        label: 'Error',
+        hidden: dataParams.error === '',
+      });
+    };
+
+    // Mixture components of the Multimodal target: weights and add/remove here,
+    // means and covariances by dragging the handles in the scene
+    let mixtureFolder = distFolder.addFolder({ title: 'Mixture components' });
+
+    const updateMixture = (components: MixtureComponent[]) => {
+      simulation.updateDistribution(new MultimodalDistribution(components));
+    };
+
+    const rebuildMixture = () => {
+      mixtureFolder.dispose();
+      const dist = simulation.distribution;
+      mixtureFolder = distFolder.addFolder({
+        title: 'Mixture components',
+        hidden: !(dist instanceof MultimodalDistribution),
+      });
+      if (!(dist instanceof MultimodalDistribution)) return;
+
+      mixtureFolder.addBinding(simulation.visualizer, 'showMixtureEditor', { label: 'Drag Handles' });
+
+      dist.components.forEach((component, i) => {
+        const params = { weight: component.weight };
+        mixtureFolder.addBinding(params, 'weight', {
+          min: 0.05,
+          max: 1,
+          step: 0.05,
+          label: `Weight ${i + 1}`,
+        }).on('change', (e: { value: number }) => {
+          // Read the latest components: the handles may have moved them since
+          const current = simulation.distribution as MultimodalDistribution;
+          updateMixture(current.components.map((c, j) => (j === i ? { ...c, weight: e.value } : c)));
+        });
+      });
+
+      mixtureFolder.addButton({ title: 'Add component' }).on('click', () => {
+        const current = simulation.distribution as MultimodalDistribution;
+        updateMixture([
+          ...current.components,
+          { mean: { x: 0, y: 0 }, covariance: { xx: 0.5, xy: 0, yy: 0.5 }, weight: 0.5 },
+        ]);
+        rebuildMixture();
+      });
+
+      mixtureFolder.addButton({ title: 'Remove last', disabled: dist.components.length <= 1 }).on('click', () => {
+        const current = simulation.distribution as MultimodalDistribution;
+        updateMixture(current.components.slice(0, -1));
+        rebuildMixture();
+      });
+
+      mixtureFolder.addButton({ title: 'Reset mixture' }).on('click', () => {
+        updateMixture(DEFAULT_MIXTURE);
+        rebuildMixture();
+      });
+    };
+
+    // Folders that depend on the selected target
+    const rebuildTargetFolders = () => {
+      dataParams.error = '';
+      rebuildShape();
+      rebuildData();
+      rebuildMixture();
+    };
+    rebuildTargetFolders();
+
+    // Custom target: typed expression in x and y, applied on Enter or when a bound changes
+    const current = simulation.distribution;
+    const customParams = current instanceof CustomDistribution
+      ? { expression: current.expression, mode: current.mode as ExpressionMode, ...current.bounds, error: '' }
+      : { expression: DEFAULT_CUSTOM_EXPRESSION, mode: 'log' as ExpressionMode, xMin: -4, xMax: 4, yMin: -3, yMax: 6, error: '' };
+    const customFolder = distFolder.addFolder({ title: 'Custom target', hidden: currentDistKey !== 'custom' });
+
+    const applyCustom = () => {
+      const { expression, mode, xMin, xMax, yMin, yMax } = customParams;
+      try {
+        const newDist = new CustomDistribution(expression, mode, { xMin, xMax, yMin, yMax });
+        customParams.error = '';
+        simulation.setDistribution(newDist);
+        simulation.reset();
+        rebuildTargetFolders();
+        onDistributionChange?.();
+      } catch (error) {
+        // Keep the previous target and show what is wrong
+        if (!(error instanceof ExpressionError)) throw error;
+        customParams.error = error.message;
+      }
+      errorBinding.hidden = customParams.error === '';
+      errorBinding.refresh();
+    };
+
+    customFolder.addBinding(customParams, 'expression', { label: 'f(x, y)' }).on('change', applyCustom);
+    customFolder.addBinding(customParams, 'mode', {
+      label: 'Meaning',
+      options: { 'log density': 'log', 'density': 'density' },
+    }).on('change', applyCustom);
+    for (const key of ['xMin', 'xMax', 'yMin', 'yMax'] as const) {
+      customFolder.addBinding(customParams, key, { step: 0.5, label: key }).on('change', applyCustom);
+    }
+    const errorBinding = customFolder.addBinding(customParams, 'error', {
+      readonly: true,
+      multiline: true,
+      rows: 2,
+      label: 'Error',
+      hidden: true,
+    });
+
     // Algorithm selector and parameters
     const algFolder = pane.addFolder({ title: 'Algorithm' });
 
@@ -190,7 +497,7 @@ export function ControlPanel({ simulation, onDistributionChange, collapsed = fal
     let paramFolder = pane.addFolder({ title: 'Parameters' });
 
     // Stats for acceptance rate
-    const stats = { acceptanceRate: 0 };
+    const stats = { acceptanceRate: 0, swapRate: 0, ladder: '', stepSize: 0, metric: '', proposal: '', evaluations: 0, prior: '', stages: 0, events: 0, boundViolations: 0, secondStageRate: 0 };
 
     // Function to rebuild parameter controls for current algorithm
     const rebuildParams = () => {
@@ -201,9 +508,39 @@ export function ControlPanel({ simulation, onDistributionChange, collapsed = fal
       const algorithm = simulation.algorithm;
       if (!algorithm) return;
 
+      // Bind an algorithm parameter and mirror changes to the other chains
+      const bindParam = (target: object, key: string, options: Record<string, unknown>) =>
+        paramFolder.addBinding(target, key, options).on('change', (e: { value: ParameterValue }) => {
+          simulation.setChainParameter(key, e.value);
+        });
+
+      // Warmup controls shared by HMC and NUTS; ε and M⁻¹ show the live adapted values
+      const bindWarmup = (sampler: HamiltonianMC | NUTS) => {
+        bindParam(sampler, 'adapt', { label: 'Adapt in burn-in' });
+        bindParam(sampler, 'targetAccept', {
+          min: 0.5,
+          max: 0.99,
+          step: 0.01,
+          label: 'Target accept',
+        });
+        bindParam(sampler, 'metricType', {
+          label: 'Metric',
+          options: { 'Unit': 'unit', 'Diagonal': 'diag', 'Dense': 'dense' },
+        });
+        paramFolder.addBinding(stats, 'stepSize', {
+          readonly: true,
+          label: 'Adapted ε',
+          format: (v: number) => v.toFixed(4),
+        });
+        paramFolder.addBinding(stats, 'metric', {
+          readonly: true,
+          label: 'M⁻¹',
+        });
+      };
+
       if (algorithm.name === 'Random Walk Metropolis-Hastings') {
         const mh = algorithm as RandomWalkMH;
-        paramFolder.addBinding(mh, 'sigma', {
+        bindParam(mh, 'sigma', {
           min: 0.05,
           max: 3,
           step: 0.05,
@@ -214,31 +551,103 @@ export function ControlPanel({ simulation, onDistributionChange, collapsed = fal
         paramFolder.addBinding(simulation.visualizer, 'showSigmaRings', {
           label: 'Show Step σ',
         });
+      } else if (algorithm.name === 'Multiple-Try Metropolis') {
+        const mtm = algorithm as MultipleTryMetropolis;
+        bindParam(mtm, 'sigma', {
+          min: 0.05,
+          max: 5,
+          step: 0.05,
+          label: 'Step Size (σ)',
+        }).on('change', (e: { value: number }) => {
+          simulation.visualizer.proposalRadius = e.value;
+        });
+        bindParam(mtm, 'numTries', {
+          min: 1,
+          max: 20,
+          step: 1,
+          label: 'Tries (k)',
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showCandidates', {
+          label: 'Show candidates',
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showSigmaRings', {
+          label: 'Show Step σ',
+        });
+      } else if (algorithm.name === 'Delayed Rejection Metropolis') {
+        const dr = algorithm as DelayedRejectionMH;
+        bindParam(dr, 'sigma', {
+          min: 0.05,
+          max: 5,
+          step: 0.05,
+          label: 'Step Size (σ)',
+        }).on('change', (e: { value: number }) => {
+          simulation.visualizer.proposalRadius = e.value;
+        });
+        bindParam(dr, 'secondScale', {
+          min: 0.05,
+          max: 1,
+          step: 0.05,
+          label: 'Stage-2 scale',
+        });
+        paramFolder.addBinding(stats, 'secondStageRate', {
+          readonly: true,
+          label: 'Stage-2 accept',
+          format: (v: number) => `${(v * 100).toFixed(1)}%`,
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showSigmaRings', {
+          label: 'Show Step σ',
+        });
+      } else if (algorithm.name === 'Adaptive Metropolis') {
+        const am = algorithm as AdaptiveMetropolis;
+        bindParam(am, 'sigma', {
+          min: 0.05,
+          max: 3,
+          step: 0.05,
+          label: 'Initial σ',
+        });
+        bindParam(am, 'adaptStart', {
+          min: 10,
+          max: 1000,
+          step: 10,
+          label: 'Adapt after',
+        });
+        bindParam(am, 'adapt', { label: 'Adapt' });
+        paramFolder.addBinding(stats, 'proposal', {
+          readonly: true,
+          label: 'Proposal Σ',
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showSigmaRings', {
+          label: 'Show proposal',
+        });
       } else {
-        // Hide sigma ring for non-RWMH algorithms
+        // Hide sigma ring for algorithms without a random-walk proposal
         simulation.visualizer.showSigmaRings = false;
       }
 
       if (algorithm.name === 'Hamiltonian Monte Carlo') {
         const hmc = algorithm as HamiltonianMC;
-        paramFolder.addBinding(hmc, 'epsilon', {
+        bindParam(hmc, 'epsilon', {
           min: 0.01,
           max: 0.5,
           step: 0.01,
           label: 'Leapfrog Δt',
         });
-        paramFolder.addBinding(hmc, 'L', {
+        bindParam(hmc, 'L', {
           min: 5,
           max: 100,
           step: 5,
           label: 'Leapfrog steps',
         });
+        bindWarmup(hmc);
         paramFolder.addBinding(simulation.visualizer, 'showMomentum', {
           label: 'Show momentum',
         });
         paramFolder.addBinding(simulation.visualizer, 'showLeapfrogPoints', {
           label: 'Show leapfrog points',
         });
+        paramFolder.addBinding(simulation.visualizer, 'showDivergences', {
+          label: 'Show divergences',
+        });
         paramFolder.addBinding(simulation.visualizer, 'animateTrajectory', {
           label: 'Animate trajectory',
         });
@@ -250,35 +659,154 @@ export function ControlPanel({ simulation, onDistributionChange, collapsed = fal
         });
       } else if (algorithm.name === 'No-U-Turn Sampler') {
         const nuts = algorithm as NUTS;
-        paramFolder.addBinding(nuts, 'epsilon', {
+        bindParam(nuts, 'epsilon', {
           min: 0.01,
           max: 0.5,
           step: 0.01,
           label: 'Step Size (ε)',
         });
-        paramFolder.addBinding(nuts, 'maxTreeDepth', {
+        bindParam(nuts, 'maxTreeDepth', {
           min: 3,
           max: 15,
           step: 1,
           label: 'Max Tree Depth',
         });
+        bindWarmup(nuts);
         paramFolder.addBinding(simulation.visualizer, 'showMomentum', {
           label: 'Show momentum',
         });
         paramFolder.addBinding(simulation.visualizer, 'showLeapfrogPoints', {
           label: 'Show leapfrog points',
         });
+        paramFolder.addBinding(simulation.visualizer, 'showDivergences', {
+          label: 'Show divergences',
+        });
       } else if (algorithm.name === 'Gibbs Sampler') {
         const gibbs = algorithm as GibbsSampler;
-        paramFolder.addBinding(gibbs, 'gridResolution', {
+        bindParam(gibbs, 'gridResolution', {
           min: 50,
           max: 500,
           step: 50,
           label: 'Grid Resolution',
         });
+      } else if (algorithm.name === 'Slice Sampler') {
+        const slice = algorithm as SliceSampler;
+        bindParam(slice, 'width', {
+          min: 0.1,
+          max: 5,
+          step: 0.1,
+          label: 'Width (w)',
+        });
+        bindParam(slice, 'maxStepOut', {
+          min: 1,
+          max: 50,
+          step: 1,
+          label: 'Max step-out (m)',
+        });
+        paramFolder.addBinding(stats, 'evaluations', {
+          readonly: true,
+          label: 'Evals / step',
+          format: (v: number) => v.toFixed(1),
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showSlices', {
+          label: 'Show slice',
+        });
+      } else if (algorithm.name === 'Hyperrectangle Slice Sampler') {
+        const slice = algorithm as HyperrectangleSliceSampler;
+        bindParam(slice, 'widthX', {
+          min: 0.1,
+          max: 10,
+          step: 0.1,
+          label: 'Box width x',
+        });
+        bindParam(slice, 'widthY', {
+          min: 0.1,
+          max: 10,
+          step: 0.1,
+          label: 'Box width y',
+        });
+        paramFolder.addBinding(stats, 'evaluations', {
+          readonly: true,
+          label: 'Evals / step',
+          format: (v: number) => v.toFixed(1),
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showSlices', {
+          label: 'Show slice',
+        });
+      } else if (algorithm.name === 'Elliptical Slice Sampler') {
+        paramFolder.addBinding(stats, 'prior', {
+          readonly: true,
+          label: 'Prior',
+        });
+        paramFolder.addBinding(stats, 'evaluations', {
+          readonly: true,
+          label: 'Evals / step',
+          format: (v: number) => v.toFixed(1),
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showEllipse', {
+          label: 'Show ellipse',
+        });
+      } else if (algorithm.name === 'Affine-Invariant Ensemble') {
+        const ensemble = algorithm as EnsembleSampler;
+        bindParam(ensemble, 'numWalkers', {
+          min: 4,
+          max: 64,
+          step: 1,
+          label: 'Walkers',
+        });
+        bindParam(ensemble, 'stretch', {
+          min: 1.1,
+          max: 5,
+          step: 0.1,
+          label: 'Stretch (a)',
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showEnsemble', {
+          label: 'Show walkers',
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showStretchMoves', {
+          label: 'Show stretch moves',
+        });
+      } else if (algorithm.name === 'Differential Evolution MC') {
+        const demc = algorithm as DifferentialEvolutionMC;
+        bindParam(demc, 'numChains', {
+          min: 3,
+          max: 32,
+          step: 1,
+          label: 'Chains',
+        });
+        bindParam(demc, 'gamma', {
+          min: 0.1,
+          max: 2,
+          step: 0.01,
+          label: 'Scale (γ)',
+        });
+        bindParam(demc, 'jitter', {
+          min: 0,
+          max: 0.5,
+          step: 0.001,
+          label: 'Jitter (b)',
+        });
+        bindParam(demc, 'snookerProbability', {
+          min: 0,
+          max: 1,
+          step: 0.05,
+          label: 'Snooker prob.',
+        });
+        bindParam(demc, 'modeJumpInterval', {
+          min: 0,
+          max: 50,
+          step: 1,
+          label: 'γ = 1 every',
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showEnsemble', {
+          label: 'Show chains',
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showDifferentialMoves', {
+          label: 'Show differences',
+        });
       } else if (algorithm.name === 'Metropolis-adjusted Langevin') {
         const mala = algorithm as LangevinMC;
-        paramFolder.addBinding(mala, 'epsilon', {
+        bindParam(mala, 'epsilon', {
           min: 0.01,
           max: 3.0,
           step: 0.01,
@@ -293,10 +821,159 @@ export function ControlPanel({ simulation, onDistributionChange, collapsed = fal
         paramFolder.addBinding(simulation.visualizer, 'showLangevinNoise', {
           label: 'Show noise',
         });
+      } else if (algorithm.name === 'Bouncy Particle Sampler' || algorithm.name === 'Zig-Zag Sampler') {
+        const pdmp = algorithm as BouncyParticleSampler | ZigZagSampler;
+        bindParam(pdmp, 'duration', {
+          min: 0.1,
+          max: 5,
+          step: 0.1,
+          label: 'Time / sample',
+        });
+        if (algorithm.name === 'Bouncy Particle Sampler') {
+          bindParam(algorithm as BouncyParticleSampler, 'refreshRate', {
+            min: 0,
+            max: 5,
+            step: 0.1,
+            label: 'Refresh rate',
+          });
+        }
+        bindParam(pdmp, 'boundHorizon', {
+          min: 0.05,
+          max: 2,
+          step: 0.05,
+          label: 'Bound window',
+        });
+        paramFolder.addBinding(stats, 'events', {
+          readonly: true,
+          label: 'Events / step',
+          format: (v: number) => v.toFixed(1),
+        });
+        paramFolder.addBinding(stats, 'boundViolations', {
+          readonly: true,
+          label: 'Bound misses',
+          format: (v: number) => v.toFixed(0),
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showBounces', {
+          label: 'Show bounces',
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showMomentum', {
+          label: 'Show velocity',
+        });
+        paramFolder.addBinding(simulation.visualizer, 'animateTrajectory', {
+          label: 'Animate path',
+        });
+      } else if (algorithm.name === 'Parallel Tempering') {
+        const pt = algorithm as ParallelTempering;
+        bindParam(pt, 'sigma', {
+          min: 0.05,
+          max: 3,
+          step: 0.05,
+          label: 'Step Size (σ)',
+        });
+        bindParam(pt, 'numReplicas', {
+          min: 2,
+          max: 8,
+          step: 1,
+          label: 'Replicas',
+        });
+        bindParam(pt, 'maxTemperature', {
+          min: 1.5,
+          max: 50,
+          step: 0.5,
+          label: 'Max Temperature',
+        });
+        bindParam(pt, 'swapInterval', {
+          min: 1,
+          max: 20,
+          step: 1,
+          label: 'Swap Every N',
+        });
+        paramFolder.addBinding(stats, 'ladder', {
+          readonly: true,
+          label: 'Ladder (T)',
+        });
+        paramFolder.addBinding(stats, 'swapRate', {
+          readonly: true,
+          label: 'Swap Rate',
+          format: (v: number) => `${(v * 100).toFixed(1)}%`,
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showReplicas', {
+          label: 'Show replicas',
+        });
+      } else if (algorithm.name === 'Importance Sampling') {
+        const is = algorithm as ImportanceSampler;
+        bindParam(is, 'proposalFamily', {
+          label: 'Proposal',
+          options: {
+            'Gaussian': 'gaussian',
+            'Student-t': 'student-t',
+          },
+        });
+        bindParam(is, 'proposalMeanX', {
+          min: -10,
+          max: 10,
+          step: 0.1,
+          label: 'Proposal μx',
+        });
+        bindParam(is, 'proposalMeanY', {
+          min: -10,
+          max: 10,
+          step: 0.1,
+          label: 'Proposal μy',
+        });
+        bindParam(is, 'proposalScale', {
+          min: 0.2,
+          max: 6,
+          step: 0.1,
+          label: 'Proposal Scale',
+        });
+        bindParam(is, 'degreesOfFreedom', {
+          min: 1,
+          max: 30,
+          step: 1,
+          label: 'Student-t ν',
+        });
+        bindParam(is, 'batchSize', {
+          min: 1,
+          max: 100,
+          step: 1,
+          label: 'Draws / Step',
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showParticles', {
+          label: 'Show particles',
+        });
+      } else if (algorithm.name === 'Sequential Monte Carlo') {
+        const smc = algorithm as SMCSampler;
+        bindParam(smc, 'numParticles', {
+          min: 50,
+          max: 1000,
+          step: 50,
+          label: 'Particles',
+        });
+        bindParam(smc, 'targetESS', {
+          min: 0.1,
+          max: 0.95,
+          step: 0.05,
+          label: 'Target ESS',
+        });
+        bindParam(smc, 'mcmcSteps', {
+          min: 1,
+          max: 20,
+          step: 1,
+          label: 'Moves / Stage',
+        });
+        paramFolder.addBinding(stats, 'stages', {
+          readonly: true,
+          label: 'Stages',
+          format: (v: number) => v.toFixed(0),
+        });
+        paramFolder.addBinding(simulation.visualizer, 'showParticles', {
+          label: 'Show particles',
+        });
       }
 
-      // Add acceptance rate (not applicable for Gibbs)
-      if (algorithm.name !== 'Gibbs Sampler') {
+      // Add acceptance rate (not applicable for Gibbs or Importance Sampling)
+      if (algorithm.getAcceptanceRate) {
         paramFolder.addBinding(stats, 'acceptanceRate', {
           readonly: true,
           label: 'Accept Rate',
@@ -310,8 +987,7 @@ export function ControlPanel({ simulation, onDistributionChange, collapsed = fal
       label: 'Method',
       options: algorithmOptions,
     }).on('change', (e: { value: AlgorithmType }) => {
-      const newAlgorithm = createAlgorithm(e.value);
-      simulation.setAlgorithm(newAlgorithm);
+      simulation.setAlgorithm(e.value);
       simulation.reset();
       rebuildParams();
     });
@@ -325,6 +1001,36 @@ export function ControlPanel({ simulation, onDistributionChange, collapsed = fal
       if (alg?.getAcceptanceRate) {
         stats.acceptanceRate = alg.getAcceptanceRate();
       }
+      if (alg?.name === 'Hamiltonian Monte Carlo' || alg?.name === 'No-U-Turn Sampler') {
+        const sampler = alg as HamiltonianMC | NUTS;
+        stats.stepSize = sampler.epsilon;
+        stats.metric = formatMetric(sampler.metric);
+      }
+      if (alg?.name === 'Slice Sampler' || alg?.name === 'Hyperrectangle Slice Sampler' || alg?.name === 'Elliptical Slice Sampler') {
+        stats.evaluations = (alg as SliceSampler | HyperrectangleSliceSampler | EllipticalSliceSampler).getEvaluationsPerStep();
+      }
+      if (alg?.name === 'Elliptical Slice Sampler') {
+        stats.prior = (alg as EllipticalSliceSampler).usesTargetPrior() ? 'from target' : 'Gaussian over bounds';
+      }
+      if (alg?.name === 'Delayed Rejection Metropolis') {
+        stats.secondStageRate = (alg as DelayedRejectionMH).getSecondStageAcceptanceRate();
+      }
+      if (alg?.name === 'Adaptive Metropolis') {
+        stats.proposal = formatMetric((alg as AdaptiveMetropolis).getProposalCovariance());
+      }
+      if (alg?.name === 'Bouncy Particle Sampler' || alg?.name === 'Zig-Zag Sampler') {
+        const pdmp = alg as BouncyParticleSampler | ZigZagSampler;
+        stats.events = pdmp.getEventsPerStep();
+        stats.boundViolations = pdmp.getBoundViolations();
+      }
+      if (alg?.name === 'Sequential Monte Carlo') {
+        stats.stages = (alg as SMCSampler).getStageCount();
+      }
+      if (alg?.name === 'Parallel Tempering') {
+        const pt = alg as ParallelTempering;
+        stats.swapRate = pt.getSwapAcceptanceRate();
+        stats.ladder = pt.getTemperatures().map(t => t.toFixed(1)).join(' · ');
+      }
     }, 100);
 
     // Store interval for cleanup
@@ -418,6 +1124,14 @@ export function ControlPanel({ simulation, onDistributionChange, collapsed = fal
       label: 'Show Histogram',
     });
 
+    vizFolder.addBinding(simulation.visualizer, 'showTrace', {
+      label: 'Show Trace',
+    });
+
+    vizFolder.addBinding(simulation.visualizer, 'showAutocorrelation', {
+      label: 'Show ACF',
+    });
+
     vizFolder.addBinding(simulation.visualizer, 'histogramBins', {
       min: 10,
       max: 80,
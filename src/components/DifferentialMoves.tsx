@@ -0,0 +1,93 @@
+import { Line, Cone } from '@react-three/drei';
+import type { Distribution } from '../distributions/Distribution';
+import type { DifferentialMove } from '../core/Visualizer';
+import { calcZ, type Vector2 } from '../core/utils';
+
+interface DifferentialMovesProps {
+  moves: DifferentialMove[];  // Moves of the current step (Visualizer.differentialMoves)
+  distribution: Distribution;
+  maxDensity: number;
+  show3D?: boolean;
+}
+
+interface ArrowProps {
+  from: Vector2;
+  to: Vector2;
+  height: number;
+  color: string;
+  opacity: number;
+}
+
+// Flat arrow at a fixed height, shaped like GradientArrow
+function Arrow({ from, to, height, color, opacity }: ArrowProps) {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (Math.hypot(dx, dy) < 0.01) return null;
+  const angle = Math.atan2(dx, dy);
+
+  return (
+    <group>
+      <Line
+        points={[[from.x, height, from.y], [to.x, height, to.y]]}
+        color={color}
+        lineWidth={2}
+        transparent
+        opacity={opacity}
+      />
+      <Cone args={[0.05, 0.12, 8]} position={[to.x, height, to.y]} rotation={[Math.PI / 2, 0, -angle]}>
+        <meshBasicMaterial color={color} transparent opacity={opacity} />
+      </Cone>
+    </group>
+  );
+}
+
+// Differential evolution: for every chain, the difference vector between its two donor
+// chains (violet) and the proposal it produced from the chain (amber if accepted, grey
+// if not). Snooker updates also show the line through the anchor chain.
+export function DifferentialMoves({ moves, distribution, maxDensity, show3D = true }: DifferentialMovesProps) {
+  if (moves.length === 0) return null;
+
+  const heightAt = (p: Vector2) => calcZ(distribution.density(p) / maxDensity, show3D);
+
+  return (
+    <group>
+      {moves.map((move, i) => {
+        const [donor1, donor2] = move.donors;
+        const opacity = move.accepted ? 0.9 : 0.35;
+        return (
+          <group key={`differential-${i}`}>
+            <Arrow
+              from={donor2}
+              to={donor1}
+              height={Math.max(heightAt(donor1), heightAt(donor2)) + 0.04}
+              color="#a78bfa"
+              opacity={opacity}
+            />
+            <Arrow
+              from={move.from}
+              to={move.to}
+              height={heightAt(move.from) + 0.03}
+              color={move.accepted ? '#fbbf24' : '#9ca3af'}
+              opacity={opacity}
+            />
+            {move.anchor && (
+              <Line
+                points={[
+                  [move.anchor.x, heightAt(move.anchor) + 0.03, move.anchor.y],
+                  [move.to.x, heightAt(move.from) + 0.03, move.to.y],
+                ]}
+                color="#e5e7eb"
+                lineWidth={1}
+                dashed
+                dashSize={0.1}
+                gapSize={0.05}
+                transparent
+                opacity={opacity}
+              />
+            )}
+          </group>
+        );
+      })}
+    </group>
+  );
+}
@@ -0,0 +1,43 @@
+import type { Distribution } from '../distributions/Distribution';
+import type { Divergence } from '../core/Visualizer';
+import { calcZ } from '../core/utils';
+
+interface DivergenceMarkersProps {
+  points: Divergence[];   // Starting points of divergent transitions (Visualizer.divergences)
+  distribution: Distribution;
+  maxDensity: number;
+  maxPoints?: number;
+  sphereSize?: number;
+  show3D?: boolean;
+}
+
+// Red diamonds where HMC/NUTS transitions diverged; they cluster where the
+// step size is too large for the local curvature (e.g. the neck of a funnel).
+// Divergences during step size adaptation are drawn smaller and faded.
+export function DivergenceMarkers({ points, distribution, maxDensity, maxPoints = 500, sphereSize = 1, show3D = true }: DivergenceMarkersProps) {
+  const visiblePoints = points.slice(Math.max(0, points.length - maxPoints));
+
+  if (visiblePoints.length === 0) return null;
+
+  return (
+    <group>
+      {visiblePoints.map(({ position, warmup }, i) => {
+        const normalizedDensity = distribution.density(position) / maxDensity;
+        const z = calcZ(normalizedDensity, show3D) + 0.03;
+
+        return (
+          <mesh key={`divergence-${i}`} position={[position.x, z, position.y]}>
+            <octahedronGeometry args={[(warmup ? 0.06 : 0.09) * sphereSize]} />
+            <meshStandardMaterial
+              color="#ef4444"
+              emissive="#ef4444"
+              emissiveIntensity={warmup ? 0.2 : 0.6}
+              transparent={warmup}
+              opacity={warmup ? 0.45 : 1}
+            />
+          </mesh>
+        );
+      })}
+    </group>
+  );
+}
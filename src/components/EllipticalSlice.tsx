@@ -0,0 +1,76 @@
+import { useMemo } from 'react';
+import { Line } from '@react-three/drei';
+import type { Distribution } from '../distributions/Distribution';
+import type { EllipseState } from '../core/Visualizer';
+import { calcZ, type Vector2 } from '../core/utils';
+
+interface EllipticalSliceProps {
+  ellipse: EllipseState | null;  // Ellipse of the current step (Visualizer.ellipse)
+  distribution: Distribution;
+  maxDensity: number;
+  sphereSize?: number;
+  show3D?: boolean;
+}
+
+// Elliptical slice sampling: the ellipse through the current point, the successive
+// angle brackets as arcs along it (earlier ones faded) and the rejected angles
+export function EllipticalSlice({ ellipse, distribution, maxDensity, sphereSize = 1, show3D = true }: EllipticalSliceProps) {
+  const geometry = useMemo(() => {
+    if (!ellipse) return null;
+    const { center, a, b } = ellipse;
+
+    const pointAt = (theta: number): Vector2 => ({
+      x: center.x + a.x * Math.cos(theta) + b.x * Math.sin(theta),
+      y: center.y + a.y * Math.cos(theta) + b.y * Math.sin(theta),
+    });
+    const onTerrain = (point: Vector2, lift: number): [number, number, number] => {
+      const normalizedDensity = distribution.density(point) / maxDensity;
+      return [point.x, calcZ(normalizedDensity, show3D) + lift, point.y];
+    };
+    const arc = (from: number, to: number, lift: number) => {
+      const segments = Math.max(8, Math.ceil((64 * (to - from)) / (2 * Math.PI)));
+      const points: [number, number, number][] = [];
+      for (let i = 0; i <= segments; i++) {
+        points.push(onTerrain(pointAt(from + ((to - from) * i) / segments), lift));
+      }
+      return points;
+    };
+
+    return {
+      full: arc(0, 2 * Math.PI, 0.02),
+      // Each bracket slightly above the previous so the shrinkage stays readable
+      brackets: ellipse.brackets.map((bracket, i) => arc(bracket.min, bracket.max, 0.04 + 0.01 * i)),
+      // Every drawn angle but the last missed the likelihood level
+      rejected: ellipse.brackets.slice(0, -1).map(bracket => onTerrain(pointAt(bracket.angle), 0.03)),
+    };
+  }, [ellipse, distribution, maxDensity, show3D]);
+
+  if (!geometry) return null;
+
+  return (
+    <group>
+      <Line points={geometry.full} color="#06b6d4" lineWidth={1.5} transparent opacity={0.6} />
+
+      {geometry.brackets.map((points, i) => {
+        const isFinal = i === geometry.brackets.length - 1;
+        return (
+          <Line
+            key={`bracket-${i}`}
+            points={points}
+            color={isFinal ? '#fbbf24' : '#f87171'}
+            lineWidth={isFinal ? 3 : 2}
+            transparent
+            opacity={isFinal ? 1 : 0.4}
+          />
+        );
+      })}
+
+      {geometry.rejected.map((position, i) => (
+        <mesh key={`rejected-${i}`} position={position}>
+          <sphereGeometry args={[0.05 * sphereSize, 12, 12]} />
+          <meshStandardMaterial color="#f87171" emissive="#f87171" emissiveIntensity={0.5} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
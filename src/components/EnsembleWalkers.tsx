@@ -0,0 +1,69 @@
+import { Line } from '@react-three/drei';
+import type { Distribution } from '../distributions/Distribution';
+import type { StretchMove } from '../core/Visualizer';
+import { calcZ, type Vector2 } from '../core/utils';
+
+interface EnsembleWalkersProps {
+  positions: Vector2[] | null;  // All walkers (Visualizer.ensemblePositions)
+  moves: StretchMove[];         // Stretch moves of the current step
+  distribution: Distribution;
+  maxDensity: number;
+  sphereSize?: number;
+  show3D?: boolean;
+  showWalkers?: boolean;
+  showMoves?: boolean;
+}
+
+const WALKER_COLOR = '#38bdf8';
+
+// Ensemble sampler: the walker swarm and each stretch move as a line from the partner
+// walker through the moving walker to its proposal (solid if accepted, faint if not).
+// Walker 0 is the chain and is drawn by the main Walker.
+export function EnsembleWalkers({
+  positions,
+  moves,
+  distribution,
+  maxDensity,
+  sphereSize = 1,
+  show3D = true,
+  showWalkers = true,
+  showMoves = true,
+}: EnsembleWalkersProps) {
+  if (!positions) return null;
+
+  const toWorld = (p: Vector2, lift: number = 0.02): [number, number, number] => {
+    const normalizedDensity = distribution.density(p) / maxDensity;
+    return [p.x, calcZ(normalizedDensity, show3D) + lift, p.y];
+  };
+
+  return (
+    <group>
+      {showWalkers && positions.map((p, k) => {
+        if (k === 0) return null;
+        return (
+          <mesh key={`walker-${k}`} position={toWorld(p)}>
+            <sphereGeometry args={[0.07 * sphereSize, 16, 16]} />
+            <meshStandardMaterial
+              color={WALKER_COLOR}
+              emissive={WALKER_COLOR}
+              emissiveIntensity={0.4}
+              transparent
+              opacity={0.85}
+            />
+          </mesh>
+        );
+      })}
+
+      {showMoves && moves.map((move, i) => (
+        <Line
+          key={`stretch-${i}`}
+          points={[toWorld(move.partner, 0.03), toWorld(move.from, 0.03), toWorld(move.to, 0.03)]}
+          color={move.accepted ? '#fbbf24' : '#9ca3af'}
+          lineWidth={move.accepted ? 1.5 : 1}
+          transparent
+          opacity={move.accepted ? 0.8 : 0.3}
+        />
+      ))}
+    </group>
+  );
+}
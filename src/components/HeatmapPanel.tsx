@@ -4,7 +4,7 @@ import type { Distribution } from '../distributions/Distribution';
 import { getColor, type ColorScheme } from '../core/colormap';
 
 interface HeatmapPanelProps {
-  samples: Vector2[];
+  samples: Vector2[];     // Markov chain states (Visualizer.allSamples), including repeats on rejection
   sampleCount: number;
   distribution: Distribution;
   bins?: number;
@@ -186,11 +186,15 @@ export function HeatmapPanel({ samples, sampleCount, distribution, bins = 40, co
     ctx.fillStyle = '#666';
     ctx.font = '12px system-ui, -apple-system, sans-serif';
     ctx.textAlign = 'center';
-    ctx.fillText('X', canvasWidth / 2, canvasHeight - 4);
+    ctx.fillText(distribution.labels.x, canvasWidth / 2, canvasHeight - 4);
+    // Vertical label reading bottom to top, so parameter names fit
+    ctx.save();
+    ctx.translate(4, canvasHeight / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textBaseline = 'top';
+    ctx.fillText(distribution.labels.y, 0, 0);
+    ctx.restore();
     ctx.textAlign = 'left';
-    ctx.textBaseline = 'middle';
-    ctx.fillText('Y', 4, canvasHeight / 2);
-    ctx.textBaseline = 'alphabetic';
 
     }, [samples, sampleCount, distribution, bins, colorScheme, canvasWidth, canvasHeight, xMin, xMax, yMin, yMax, xRange, yRange, scale, maxCanvasSize, effectiveSamples]);
 
@@ -4,6 +4,14 @@ interface InfoPanelProps {
   algorithm: MCMCAlgorithm | null;
   samples: number;
   acceptanceRate: number;
+  particleESS?: number;
+  particleCount?: number;
+  rHat?: { x: number; y: number } | null;
+  ess?: { x: number; y: number } | null;
+  samplingSeconds?: number;
+  divergences?: number | null;
+  warmupDivergences?: number;  // Divergences while the step size was adapted
+  tempering?: { beta: number; logEvidence: number } | null;
 }
 
 const algorithmDescriptions: Record<string, { title: string; description: string }> = {
@@ -11,6 +19,18 @@ const algorithmDescriptions: Record<string, { title: string; description: string
     title: 'Metropolis Hastings',
     description: 'Proposes new positions by taking random steps. Step size (σ) controls exploration vs acceptance trade-off.',
   },
+  'Adaptive Metropolis': {
+    title: 'Adaptive Metropolis',
+    description: 'Random walk whose proposal learns the covariance of the chain so far, scaled by 2.38²/d. The ellipse shows the current proposal; on correlated targets it stretches along the ridge and the acceptance rate recovers.',
+  },
+  'Multiple-Try Metropolis': {
+    title: 'Multiple-Try Metropolis',
+    description: 'Draws k candidates around the current point and picks one in proportion to its density (larger ghosts weigh more). A reference set drawn around the pick (grey) corrects the acceptance, so bigger steps still get accepted.',
+  },
+  'Delayed Rejection Metropolis': {
+    title: 'Delayed Rejection',
+    description: 'A bold random-walk step first; when it is rejected (red), a second, smaller step from the same point (violet) gets a chance, with an acceptance that accounts for the failed first try.',
+  },
   'Hamiltonian Monte Carlo': {
     title: 'Hamiltonian MC',
     description: 'Uses gradient information to simulate physics-based dynamics for efficient exploration.',
@@ -21,25 +41,69 @@ const algorithmDescriptions: Record<string, { title: string; description: string
   },
   'Importance Sampling': {
     title: 'Importance Sampling',
-    description: 'Draws weighted samples from a proposal distribution.',
+    description: 'Draws weighted samples from a proposal distribution. Particle size shows the normalized weight; a low ESS means the proposal fits the target poorly.',
+  },
+  'Sequential Monte Carlo': {
+    title: 'Sequential Monte Carlo',
+    description: 'Carries a particle cloud from a broad Gaussian to the target through tempered targets q¹⁻ᵝ pᵝ. Each stage raises β as far as the weight ESS allows, resamples and moves the particles; the weights along the way estimate log Z. Once β = 1 every step reports one particle.',
   },
   'Gibbs Sampler': {
     title: 'Gibbs Sampler',
     description: 'Samples each coordinate from its conditional distribution, producing axis-aligned movements.',
   },
+  'Slice Sampler': {
+    title: 'Slice Sampler',
+    description: 'Draws a level under the density (the plane cutting the terrain), then samples each coordinate uniformly from the slice above it. The bar steps out until both ends leave the slice and shrinks toward the current point on every miss; nothing is ever rejected.',
+  },
+  'Hyperrectangle Slice Sampler': {
+    title: 'Hyperrectangle Slice',
+    description: 'Slice sampling with a box around the current point instead of one coordinate at a time. Misses shrink the box toward the current point, so an oversized box costs extra density evaluations rather than bad moves.',
+  },
+  'Elliptical Slice Sampler': {
+    title: 'Elliptical Slice',
+    description: 'For a Gaussian prior times a likelihood: draws an ellipse from the prior through the current point and shrinks an angle bracket (the arcs) until the likelihood clears a random level. No step size, no rejections. Targets without a Gaussian prior are factored against a broad Gaussian over the plot.',
+  },
+  'Affine-Invariant Ensemble': {
+    title: 'Ensemble (emcee)',
+    description: 'A swarm of walkers, each proposing a stretch along the line through another walker. The moves take the shape of the swarm, so stretched and curved targets such as Banana or Rosenbrock need no tuning. The green walker is the reported chain.',
+  },
+  'Differential Evolution MC': {
+    title: 'DE-MC',
+    description: 'A population of chains, each proposing a jump by the difference of two others (violet arrows) plus a small jitter. The jumps take the scale and orientation of the population, so correlated targets need no tuning; snooker updates move along the line through a third chain.',
+  },
   'Metropolis-adjusted Langevin': {
     title: 'MALA',
     description: 'Combines gradient-driven drift toward local peaks with Gaussian noise. Efficient within modes but tends to get trapped in multimodal distributions.',
   },
+  'Bouncy Particle Sampler': {
+    title: 'Bouncy Particle',
+    description: 'A continuous-time process: the particle moves in straight lines and bounces off the contours (cyan) when climbing down the density, with occasional random refreshments (violet). There is no accept/reject step; samples are the path read off at equal times.',
+  },
+  'Zig-Zag Sampler': {
+    title: 'Zig-Zag',
+    description: 'A continuous-time process moving diagonally at unit speed in each coordinate and flipping one velocity component at a time (cyan), more often the further downhill it heads. Flips are drawn by thinning against local bounds on the gradient.',
+  },
+  'Parallel Tempering': {
+    title: 'Parallel Tempering',
+    description: 'Runs replicas at increasing temperatures. Hot replicas cross between modes freely and swap states with colder ones, so the cold chain escapes local peaks.',
+  },
 };
 
-export function InfoPanel({ algorithm, samples, acceptanceRate }: InfoPanelProps) {
+export function InfoPanel({ algorithm, samples, acceptanceRate, particleESS, particleCount = 0, rHat = null, ess = null, samplingSeconds = 0, divergences = null, warmupDivergences = 0, tempering = null }: InfoPanelProps) {
   const algName = algorithm?.name || 'None';
   const info = algorithmDescriptions[algName] || {
     title: algName,
     description: 'Select an algorithm to begin sampling.',
   };
 
+  // Acceptance rate only applies to algorithms with an accept/reject step
+  const hasAcceptance = !!algorithm?.getAcceptanceRate;
+  const showParticleESS = particleESS !== undefined && particleCount > 0;
+
+  // ESS per second of sampling time, using the worse-mixing coordinate
+  const minESS = ess ? Math.min(ess.x, ess.y) : 0;
+  const essPerSecond = samplingSeconds > 0 ? minESS / samplingSeconds : 0;
+
   return (
     <div
       style={{
@@ -76,29 +140,62 @@ export function InfoPanel({ algorithm, samples, acceptanceRate }: InfoPanelProps
 
       <div style={{
         display: 'grid',
-        gridTemplateColumns: algName === 'Gibbs Sampler' ? '1fr' : '1fr 1fr',
+        gridTemplateColumns: hasAcceptance || showParticleESS || rHat || ess || divergences !== null || tempering ? '1fr 1fr' : '1fr',
         gap: 8,
         borderTop: '1px solid #222',
         paddingTop: 10,
       }}>
         <Stat label="Samples" value={samples.toString()} />
-        {algName !== 'Gibbs Sampler' && (
+        {hasAcceptance && (
           <Stat label="Accept" value={`${(acceptanceRate * 100).toFixed(1)}%`} />
         )}
+        {divergences !== null && (
+          <Stat label="Divergent" value={divergences.toString()} color={divergences > 0 ? '#ef4444' : '#fff'} />
+        )}
+        {divergences !== null && warmupDivergences > 0 && (
+          <Stat label="Warmup div." value={warmupDivergences.toString()} color="#fca5a5" />
+        )}
+        {showParticleESS && (
+          <Stat label="Weight ESS" value={`${particleESS.toFixed(0)}/${particleCount}`} />
+        )}
+        {tempering && (
+          <>
+            <Stat label="β (1/T)" value={tempering.beta.toFixed(3)} color={tempering.beta < 1 ? '#f97316' : '#4ade80'} />
+            <Stat label="log Ẑ" value={tempering.logEvidence.toFixed(3)} />
+          </>
+        )}
+        {ess && (
+          <>
+            <Stat label="ESS (x / y)" value={`${ess.x.toFixed(0)} / ${ess.y.toFixed(0)}`} />
+            <Stat label="ESS / sec" value={essPerSecond.toFixed(0)} />
+          </>
+        )}
+        {rHat && (
+          <>
+            <RHatStat label="R̂ (x)" value={rHat.x} />
+            <RHatStat label="R̂ (y)" value={rHat.y} />
+          </>
+        )}
       </div>
     </div>
   );
 }
 
-function Stat({ label, value }: { label: string; value: string }) {
+function Stat({ label, value, color = '#fff' }: { label: string; value: string; color?: string }) {
   return (
     <div>
       <div style={{ fontSize: 9, color: '#999', textTransform: 'uppercase', letterSpacing: 0.5 }}>
         {label}
       </div>
-      <div style={{ fontSize: 16, fontWeight: 600, color: '#fff', fontFamily: 'monospace' }}>
+      <div style={{ fontSize: 16, fontWeight: 600, color, fontFamily: 'monospace' }}>
         {value}
       </div>
     </div>
   );
 }
+
+// Split-R̂ above 1.01 means the chains disagree (not yet converged)
+function RHatStat({ label, value }: { label: string; value: number }) {
+  if (!isFinite(value)) return <Stat label={label} value="—" />;
+  return <Stat label={label} value={value.toFixed(3)} color={value > 1.01 ? '#f97316' : '#4ade80'} />;
+}
@@ -3,7 +3,7 @@ import type { Vector2 } from '../core/utils';
 import type { Distribution } from '../distributions/Distribution';
 
 interface MarginalHistogramsProps {
-  samples: Vector2[];
+  samples: Vector2[];     // Markov chain states (Visualizer.allSamples), including repeats on rejection
   sampleCount: number;
   distribution: Distribution;
   bins?: number;
@@ -145,10 +145,10 @@ export function MarginalHistograms({ samples, sampleCount, distribution, bins =
     const yData = effectiveSamples.length > 0 ? computeHist(yValues, yMin, yMax) : null;
 
     // Draw X histogram (top) - uses X range
-    drawPanel(5, 'X', (x) => distribution.marginalX(x), xData, xMin, xMax);
+    drawPanel(5, distribution.labels.x, (x) => distribution.marginalX(x), xData, xMin, xMax);
 
     // Draw Y histogram (bottom) - uses Y range
-    drawPanel(histHeight + 20, 'Y', (y) => distribution.marginalY(y), yData, yMin, yMax);
+    drawPanel(histHeight + 20, distribution.labels.y, (y) => distribution.marginalY(y), yData, yMin, yMax);
 
     }, [samples, sampleCount, distribution, bins, scale, CANVAS_WIDTH, CANVAS_HEIGHT, effectiveSamples]);
 
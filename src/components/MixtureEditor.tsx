@@ -0,0 +1,135 @@
+import { useState, type ComponentRef } from 'react';
+import * as THREE from 'three';
+import { useThree, type ThreeEvent } from '@react-three/fiber';
+import { Line, type OrbitControls } from '@react-three/drei';
+import { calcZ, type Vector2 } from '../core/utils';
+import {
+  axesFromCovariance,
+  covarianceFromAxes,
+  type MixtureComponent,
+  type MultimodalDistribution,
+} from '../distributions/MultimodalDistribution';
+
+interface MixtureEditorProps {
+  distribution: MultimodalDistribution;
+  maxDensity: number;
+  show3D?: boolean;
+  onChange: (components: MixtureComponent[]) => void;
+}
+
+type Handle = 'center' | 'major' | 'minor';
+type OrbitControlsImpl = ComponentRef<typeof OrbitControls>;
+
+// Smallest standard deviation a handle can shrink an axis to
+const MIN_AXIS = 0.1;
+
+// Drag handles for each mixture component: the centre moves the mean, the two
+// axis handles on the 1σ ellipse rotate and stretch the covariance
+export function MixtureEditor({ distribution, maxDensity, show3D = true, onChange }: MixtureEditorProps) {
+  const controls = useThree((state) => state.controls as OrbitControlsImpl | null);
+  // Dragged handle and the height of the horizontal plane it moves in
+  const [drag, setDrag] = useState<{ index: number; handle: Handle; height: number } | null>(null);
+
+  const heightAt = (p: Vector2) => calcZ(distribution.density(p) / maxDensity, show3D) + 0.05;
+
+  const startDrag = (e: ThreeEvent<PointerEvent>, index: number, handle: Handle) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    // Keep the camera still while dragging
+    if (controls) controls.enabled = false;
+    setDrag({ index, handle, height: e.point.y });
+  };
+
+  const endDrag = (e: ThreeEvent<PointerEvent>) => {
+    if (!drag) return;
+    e.stopPropagation();
+    (e.target as Element).releasePointerCapture(e.pointerId);
+    if (controls) controls.enabled = true;
+    setDrag(null);
+  };
+
+  const moveDrag = (e: ThreeEvent<PointerEvent>) => {
+    if (!drag) return;
+    e.stopPropagation();
+
+    // Intersect the pointer ray with the drag plane (world Z is distribution y)
+    const plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), -drag.height);
+    const hit = new THREE.Vector3();
+    if (!e.ray.intersectPlane(plane, hit)) return;
+    const { xMin, xMax, yMin, yMax } = distribution.bounds;
+    const p = {
+      x: Math.max(xMin, Math.min(xMax, hit.x)),
+      y: Math.max(yMin, Math.min(yMax, hit.z)),
+    };
+
+    const components = distribution.components.map((c, i) => {
+      if (i !== drag.index) return c;
+      const { major, minor, angle } = axesFromCovariance(c.covariance);
+      const dx = p.x - c.mean.x;
+      const dy = p.y - c.mean.y;
+      if (drag.handle === 'center') {
+        return { ...c, mean: p };
+      }
+      if (drag.handle === 'major') {
+        const length = Math.max(MIN_AXIS, Math.hypot(dx, dy));
+        return { ...c, covariance: covarianceFromAxes(length, minor, Math.atan2(dy, dx)) };
+      }
+      // Minor axis: distance along the direction perpendicular to the major axis
+      const length = Math.max(MIN_AXIS, Math.abs(-Math.sin(angle) * dx + Math.cos(angle) * dy));
+      return { ...c, covariance: covarianceFromAxes(major, length, angle) };
+    });
+    onChange(components);
+  };
+
+  return (
+    <group>
+      {distribution.components.map((component, index) => {
+        const { mean } = component;
+        const { major, minor, angle } = axesFromCovariance(component.covariance);
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+
+        // 1σ ellipse draped over the terrain
+        const ellipse: [number, number, number][] = [];
+        const segments = 64;
+        for (let i = 0; i <= segments; i++) {
+          const t = (i / segments) * Math.PI * 2;
+          const x = mean.x + major * Math.cos(t) * cos - minor * Math.sin(t) * sin;
+          const y = mean.y + major * Math.cos(t) * sin + minor * Math.sin(t) * cos;
+          ellipse.push([x, heightAt({ x, y }), y]);
+        }
+
+        const handles: { handle: Handle; position: Vector2; color: string }[] = [
+          { handle: 'center', position: mean, color: '#ffffff' },
+          { handle: 'major', position: { x: mean.x + major * cos, y: mean.y + major * sin }, color: '#fbbf24' },
+          { handle: 'minor', position: { x: mean.x - minor * sin, y: mean.y + minor * cos }, color: '#f97316' },
+        ];
+
+        return (
+          <group key={index}>
+            <Line points={ellipse} color="#fbbf24" lineWidth={1.5} transparent opacity={0.8} />
+            {handles.map(({ handle, position, color }) => {
+              const isActive = drag?.index === index && drag.handle === handle;
+              return (
+                <mesh
+                  key={handle}
+                  position={[position.x, heightAt(position), position.y]}
+                  onPointerDown={(e) => startDrag(e, index, handle)}
+                  onPointerMove={moveDrag}
+                  onPointerUp={endDrag}
+                >
+                  <sphereGeometry args={[handle === 'center' ? 0.14 : 0.1, 16, 16]} />
+                  <meshStandardMaterial
+                    color={color}
+                    emissive={color}
+                    emissiveIntensity={isActive ? 1 : 0.4}
+                  />
+                </mesh>
+              );
+            })}
+          </group>
+        );
+      })}
+    </group>
+  );
+}
@@ -11,16 +11,19 @@ interface ProposalGhostProps {
   visible?: boolean;
   show3D?: boolean;
   accepted?: boolean | null;  // null = pending, true = accepted, false = rejected
+  pendingColor?: string;      // Colour while pending (e.g. a second-stage proposal)
+  scale?: number;             // Size relative to a single proposal
+  opacity?: number;
 }
 
-export function ProposalGhost({ position, distribution, maxDensity, visible = true, show3D = true, accepted = null }: ProposalGhostProps) {
+export function ProposalGhost({ position, distribution, maxDensity, visible = true, show3D = true, accepted = null, pendingColor = '#fbbf24', scale = 1, opacity = 0.85 }: ProposalGhostProps) {
   const meshRef = useRef<THREE.Mesh>(null);
 
   // Animate pulse effect (only when pending)
   useFrame((state) => {
     if (meshRef.current && position && accepted === null) {
-      const scale = 1 + Math.sin(state.clock.elapsedTime * 4) * 0.1;
-      meshRef.current.scale.setScalar(scale);
+      const pulse = 1 + Math.sin(state.clock.elapsedTime * 4) * 0.1;
+      meshRef.current.scale.setScalar(pulse);
     }
   });
 
@@ -30,17 +33,17 @@ export function ProposalGhost({ position, distribution, maxDensity, visible = tr
   const z = calcZ(normalizedDensity, show3D) + 0.02;
 
   // Color based on accept/reject state
-  const color = accepted === true ? '#22c55e' : accepted === false ? '#ef4444' : '#fbbf24';
+  const color = accepted === true ? '#22c55e' : accepted === false ? '#ef4444' : pendingColor;
 
   return (
     <mesh ref={meshRef} position={[position.x, z, position.y]}>
-      <sphereGeometry args={[0.08, 16, 16]} />
+      <sphereGeometry args={[0.08 * scale, 16, 16]} />
       <meshStandardMaterial
         color={color}
         emissive={color}
         emissiveIntensity={0.4}
         transparent
-        opacity={0.85}
+        opacity={opacity}
       />
     </mesh>
   );
@@ -0,0 +1,79 @@
+import { Line } from '@react-three/drei';
+import type { Distribution } from '../distributions/Distribution';
+import { calcZ, type Vector2 } from '../core/utils';
+
+interface ReplicaWalkersProps {
+  positions: Vector2[] | null;
+  temperatures: number[];
+  swap: { i: number; j: number; accepted: boolean } | null;
+  distribution: Distribution;
+  maxDensity: number;
+  sphereSize?: number;
+  show3D?: boolean;
+}
+
+// Cold replica (index 0) keeps the regular green walker; hotter replicas go from blue to red
+const REPLICA_COLORS = ['#4ade80', '#38bdf8', '#a78bfa', '#f472b6', '#fb923c', '#ef4444', '#facc15', '#f5f5f5'];
+
+function replicaColor(index: number): string {
+  return REPLICA_COLORS[index % REPLICA_COLORS.length];
+}
+
+export function ReplicaWalkers({
+  positions,
+  temperatures,
+  swap,
+  distribution,
+  maxDensity,
+  sphereSize = 1,
+  show3D = true,
+}: ReplicaWalkersProps) {
+  if (!positions || positions.length < 2) return null;
+
+  const toWorld = (p: Vector2): [number, number, number] => {
+    const normalizedDensity = distribution.density(p) / maxDensity;
+    return [p.x, calcZ(normalizedDensity, show3D) + 0.02, p.y];
+  };
+
+  const swapPair = swap && swap.accepted && positions[swap.i] && positions[swap.j]
+    ? [toWorld(positions[swap.i]), toWorld(positions[swap.j])]
+    : null;
+
+  return (
+    <group>
+      {/* Hot replicas - the cold chain is drawn by the main Walker */}
+      {positions.map((p, k) => {
+        if (k === 0) return null;
+        const color = replicaColor(k);
+        const isSwapping = swap?.accepted && (swap.i === k || swap.j === k);
+        // Hotter replicas are drawn slightly smaller so the cold chain stays prominent
+        const radius = 0.08 * sphereSize * (isSwapping ? 1.5 : 1) / Math.pow(temperatures[k] || 1, 0.1);
+
+        return (
+          <mesh key={`replica-${k}`} position={toWorld(p)}>
+            <sphereGeometry args={[radius, 16, 16]} />
+            <meshStandardMaterial
+              color={color}
+              emissive={color}
+              emissiveIntensity={isSwapping ? 1 : 0.4}
+              transparent
+              opacity={0.85}
+            />
+          </mesh>
+        );
+      })}
+
+      {/* Flash a link between the two replicas of an accepted swap */}
+      {swapPair && (
+        <Line
+          points={swapPair}
+          color="#ffffff"
+          lineWidth={3}
+          dashed
+          dashSize={0.1}
+          gapSize={0.05}
+        />
+      )}
+    </group>
+  );
+}
@@ -2,15 +2,17 @@ import type { Distribution } from '../distributions/Distribution';
 import { calcZ, type Vector2 } from '../core/utils';
 
 interface SamplePointsProps {
-  points: Vector2[];
+  points: Vector2[];      // Visual trail of accepted moves (Visualizer.acceptedSamples)
   distribution: Distribution;
   maxDensity: number;
   maxPoints?: number;
   sphereSize?: number;
   show3D?: boolean;
+  color?: string;
+  emissive?: string;
 }
 
-export function SamplePoints({ points, distribution, maxDensity, maxPoints = 300, sphereSize = 1, show3D = true }: SamplePointsProps) {
+export function SamplePoints({ points, distribution, maxDensity, maxPoints = 300, sphereSize = 1, show3D = true, color = '#88ccff', emissive = '#4488ff' }: SamplePointsProps) {
   // Only show the last maxPoints samples for performance
   const start = Math.max(0, points.length - maxPoints);
   const visiblePoints = points.slice(start);
@@ -37,8 +39,8 @@ export function SamplePoints({ points, distribution, maxDensity, maxPoints = 300
           >
             <sphereGeometry args={[0.08 * sphereSize, 12, 12]} />
             <meshStandardMaterial
-              color="#88ccff"
-              emissive="#4488ff"
+              color={color}
+              emissive={emissive}
               emissiveIntensity={0.4}
               metalness={0.2}
               roughness={0.3}
@@ -4,21 +4,22 @@ import type { Distribution } from '../distributions/Distribution';
 import { calcZ, type Vector2 } from '../core/utils';
 
 interface SampleTrailProps {
-  points: Vector2[];
+  points: Vector2[];      // Visual trail of accepted moves (Visualizer.acceptedSamples)
   distribution: Distribution;
   maxDensity: number;
   show3D?: boolean;
+  color?: string;
 }
 
-export function SampleTrail({ points, distribution, maxDensity, show3D = true }: SampleTrailProps) {
+export function SampleTrail({ points, distribution, maxDensity, show3D = true, color = '#888' }: SampleTrailProps) {
   // No useMemo - recalculate every render since points array is mutated
   if (points.length < 2) return null;
 
   const linePoints: [number, number, number][] = [];
   const vertexColors: THREE.Color[] = [];
 
-  // Base color (gray for dark theme)
-  const baseColor = new THREE.Color('#888');
+  // Base color (gray for dark theme unless a chain colour is given)
+  const baseColor = new THREE.Color(color);
 
   points.forEach((p, i) => {
     // Normalize density same as terrain
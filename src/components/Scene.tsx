@@ -7,12 +7,23 @@ import { SigmaRing } from './SigmaRings';
 import { Walker } from './Walker';
 import { ProposalGhost } from './ProposalGhost';
 import { ProposalLine } from './ProposalLine';
+import { CandidateGhosts } from './CandidateGhosts';
 import { SampleTrail } from './SampleTrail';
 import { SamplePoints } from './SamplePoints';
 import { Trajectory } from './Trajectory';
 import { MomentumVector } from './MomentumVector';
 import { GradientArrow } from './GradientArrow';
 import { DriftMarker } from './DriftMarker';
+import { ReplicaWalkers } from './ReplicaWalkers';
+import { WeightedParticles } from './WeightedParticles';
+import { MixtureEditor } from './MixtureEditor';
+import { DivergenceMarkers } from './DivergenceMarkers';
+import { SliceLevel } from './SliceLevel';
+import { EllipticalSlice } from './EllipticalSlice';
+import { EnsembleWalkers } from './EnsembleWalkers';
+import { DifferentialMoves } from './DifferentialMoves';
+import { BounceMarkers } from './BounceMarkers';
+import { MultimodalDistribution, type MixtureComponent } from '../distributions/MultimodalDistribution';
 import type { Simulation } from '../core/Simulation';
 
 interface SceneProps {
@@ -27,6 +38,11 @@ export function Scene({ simulation }: SceneProps) {
     simulation.setStartPosition(pos);
   }, [simulation]);
 
+  // Mixture edits swap the target in place so the chains keep running
+  const handleMixtureChange = useCallback((components: MixtureComponent[]) => {
+    simulation.updateDistribution(new MultimodalDistribution(components));
+  }, [simulation]);
+
   // Responsive gizmo size
   const [isMobile, setIsMobile] = useState(() => window.innerWidth < 768);
   useEffect(() => {
@@ -52,12 +68,13 @@ export function Scene({ simulation }: SceneProps) {
     return max || 1;
   }, [distribution]);
 
-  // Filter samples based on burn-in settings
+  // Visual trail (accepted moves) filtered by burn-in settings
   // During burn-in: show all samples. After burn-in: exclude burn-in samples
-  const isInBurnIn = visualizer.allSamples.length < visualizer.burnIn;
-  const effectiveSamples = (visualizer.excludeBurnIn && !isInBurnIn)
-    ? visualizer.acceptedSamples.slice(Math.max(0, visualizer.burnIn - (visualizer.allSamples.length - visualizer.acceptedSamples.length)))
-    : visualizer.acceptedSamples;
+  const effectiveSamples = visualizer.getTrail(visualizer.burnIn, visualizer.excludeBurnIn);
+
+  // Chains beyond the first are drawn in their own colours
+  const isMultiChain = simulation.chains.length > 1;
+  const extraChains = simulation.chains.slice(1);
 
   if (!distribution) {
     return (
@@ -118,24 +135,24 @@ export function Scene({ simulation }: SceneProps) {
 
       {/* Axis labels - Y on left, X at far end (matches heatmap orientation) */}
       <Text
-        position={[distribution.bounds.xMin - 1, 0.05, 0]}
+        position={[distribution.bounds.xMin - 1, 0.05, (distribution.bounds.yMin + distribution.bounds.yMax) / 2]}
         rotation={[-Math.PI / 2, 0, 0]}
         fontSize={0.5}
         color="#666"
         anchorX="center"
         anchorY="middle"
       >
-        Y
+        {distribution.labels.y}
       </Text>
       <Text
-        position={[0, 0.05, distribution.bounds.yMax + 1]}
+        position={[(distribution.bounds.xMin + distribution.bounds.xMax) / 2, 0.05, distribution.bounds.yMax + 1]}
         rotation={[-Math.PI / 2, 0, 0]}
         fontSize={0.5}
         color="#666"
         anchorX="center"
         anchorY="middle"
       >
-        X
+        {distribution.labels.x}
       </Text>
 
       {/* Terrain */}
@@ -158,11 +175,22 @@ export function Scene({ simulation }: SceneProps) {
         />
       )}
 
-      {/* Sigma ring - show proposal step size around walker */}
+      {/* Mixture component handles - drag means and covariance axes */}
+      {visualizer.showMixtureEditor && distribution instanceof MultimodalDistribution && (
+        <MixtureEditor
+          distribution={distribution}
+          maxDensity={maxDensity}
+          show3D={visualizer.show3D}
+          onChange={handleMixtureChange}
+        />
+      )}
+
+      {/* Sigma ring - show proposal step size (or covariance ellipse) around walker */}
       {visualizer.showSigmaRings && visualizer.currentPosition && (
         <SigmaRing
           position={visualizer.currentPosition}
           sigma={visualizer.proposalRadius || 0.5}
+          covariance={visualizer.proposalCovariance}
           distribution={distribution}
           maxDensity={maxDensity}
           show3D={visualizer.show3D}
@@ -177,6 +205,8 @@ export function Scene({ simulation }: SceneProps) {
         maxPoints={visualizer.maxTrailLength}
         sphereSize={visualizer.sphereSize}
         show3D={visualizer.show3D}
+        color={isMultiChain ? simulation.chains[0].color : undefined}
+        emissive={isMultiChain ? simulation.chains[0].color : undefined}
       />
 
       {/* Sample trail - line connecting samples */}
@@ -186,9 +216,58 @@ export function Scene({ simulation }: SceneProps) {
           distribution={distribution}
           maxDensity={maxDensity}
           show3D={visualizer.show3D}
+          color={isMultiChain ? simulation.chains[0].color : undefined}
         />
       )}
 
+      {/* Additional chains - samples, trail and walker in the chain's colour */}
+      {extraChains.map((chain, c) => {
+        const chainSamples = chain.visualizer.getTrail(visualizer.burnIn, visualizer.excludeBurnIn);
+        return (
+          <group key={`chain-${c + 1}`}>
+            <SamplePoints
+              points={chainSamples}
+              distribution={distribution}
+              maxDensity={maxDensity}
+              maxPoints={visualizer.maxTrailLength}
+              sphereSize={visualizer.sphereSize}
+              show3D={visualizer.show3D}
+              color={chain.color}
+              emissive={chain.color}
+            />
+            {visualizer.showTrail && (
+              <SampleTrail
+                points={chainSamples}
+                distribution={distribution}
+                maxDensity={maxDensity}
+                show3D={visualizer.show3D}
+                color={chain.color}
+              />
+            )}
+            <Walker
+              position={chain.visualizer.currentPosition}
+              distribution={distribution}
+              maxDensity={maxDensity}
+              color={chain.color}
+              sphereSize={visualizer.sphereSize}
+              show3D={visualizer.show3D}
+            />
+          </group>
+        );
+      })}
+
+      {/* Divergent transitions of every chain - persistent red markers */}
+      {visualizer.showDivergences && simulation.chains.map((chain, c) => (
+        <DivergenceMarkers
+          key={`divergences-${c}`}
+          points={chain.visualizer.divergences}
+          distribution={distribution}
+          maxDensity={maxDensity}
+          sphereSize={visualizer.sphereSize}
+          show3D={visualizer.show3D}
+        />
+      ))}
+
       {/* HMC/NUTS trajectory path */}
       <Trajectory
         path={visualizer.trajectoryPath}
@@ -198,6 +277,17 @@ export function Scene({ simulation }: SceneProps) {
         show3D={visualizer.show3D}
       />
 
+      {/* Bouncy particle / zig-zag - velocity changes along the path */}
+      {visualizer.showBounces && (
+        <BounceMarkers
+          bounces={visualizer.bounces}
+          distribution={distribution}
+          maxDensity={maxDensity}
+          sphereSize={visualizer.sphereSize}
+          show3D={visualizer.show3D}
+        />
+      )}
+
       {/* HMC momentum vector - shown at trajectory start */}
       {visualizer.showMomentum && (
         <MomentumVector
@@ -234,6 +324,74 @@ export function Scene({ simulation }: SceneProps) {
         showNoise={visualizer.showLangevinNoise}
       />
 
+      {/* Slice samplers - level cut through the terrain and interval bars */}
+      {visualizer.showSlices && (
+        <SliceLevel
+          slices={visualizer.slices}
+          distribution={distribution}
+          maxDensity={maxDensity}
+          show3D={visualizer.show3D}
+        />
+      )}
+
+      {/* Elliptical slice sampler - ellipse through the walker and angle brackets */}
+      {visualizer.showEllipse && (
+        <EllipticalSlice
+          ellipse={visualizer.ellipse}
+          distribution={distribution}
+          maxDensity={maxDensity}
+          sphereSize={visualizer.sphereSize}
+          show3D={visualizer.show3D}
+        />
+      )}
+
+      {/* Population samplers - walker swarm and stretch-move lines */}
+      <EnsembleWalkers
+        positions={visualizer.ensemblePositions}
+        moves={visualizer.stretchMoves}
+        distribution={distribution}
+        maxDensity={maxDensity}
+        sphereSize={visualizer.sphereSize}
+        show3D={visualizer.show3D}
+        showWalkers={visualizer.showEnsemble}
+        showMoves={visualizer.showStretchMoves}
+      />
+
+      {/* Differential evolution - donor difference vectors and proposals */}
+      {visualizer.showDifferentialMoves && (
+        <DifferentialMoves
+          moves={visualizer.differentialMoves}
+          distribution={distribution}
+          maxDensity={maxDensity}
+          show3D={visualizer.show3D}
+        />
+      )}
+
+      {/* Importance sampling particles - sized by normalized weight */}
+      {visualizer.showParticles && (
+        <WeightedParticles
+          points={visualizer.particles}
+          weights={visualizer.particleWeights}
+          distribution={distribution}
+          maxDensity={maxDensity}
+          sphereSize={visualizer.sphereSize}
+          show3D={visualizer.show3D}
+        />
+      )}
+
+      {/* Parallel tempering replicas - one colour per temperature */}
+      {visualizer.showReplicas && (
+        <ReplicaWalkers
+          positions={visualizer.replicaPositions}
+          temperatures={visualizer.replicaTemperatures}
+          swap={visualizer.lastSwap}
+          distribution={distribution}
+          maxDensity={maxDensity}
+          sphereSize={visualizer.sphereSize}
+          show3D={visualizer.show3D}
+        />
+      )}
+
       {/* Proposal line - from current to proposal */}
       <ProposalLine
         from={visualizer.currentPosition}
@@ -243,21 +401,42 @@ export function Scene({ simulation }: SceneProps) {
         show3D={visualizer.show3D}
       />
 
-      {/* Proposal ghost - shows proposed position */}
+      {/* Multiple-try Metropolis - the other candidates and the reference set */}
+      {visualizer.showCandidates && (
+        <CandidateGhosts
+          candidates={visualizer.candidates}
+          distribution={distribution}
+          maxDensity={maxDensity}
+          show3D={visualizer.show3D}
+        />
+      )}
+
+      {/* Delayed rejection - the rejected first-stage proposal */}
+      <ProposalGhost
+        position={visualizer.rejectedProposal}
+        distribution={distribution}
+        maxDensity={maxDensity}
+        show3D={visualizer.show3D}
+        accepted={false}
+        opacity={0.5}
+      />
+
+      {/* Proposal ghost - shows proposed position (violet for a second-stage proposal) */}
       <ProposalGhost
         position={visualizer.proposalPosition}
         distribution={distribution}
         maxDensity={maxDensity}
         show3D={visualizer.show3D}
         accepted={visualizer.proposalAccepted}
+        pendingColor={visualizer.proposalStage === 2 ? '#a78bfa' : '#fbbf24'}
       />
 
-      {/* Walker - current position (always green) */}
+      {/* Walker - current position (green, the colour of chain 0) */}
       <Walker
         position={visualizer.currentPosition}
         distribution={distribution}
         maxDensity={maxDensity}
-        color="#4ade80"
+        color={simulation.chains[0]?.color ?? '#4ade80'}
         sphereSize={visualizer.sphereSize}
         show3D={visualizer.show3D}
       />
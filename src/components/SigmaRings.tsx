@@ -1,11 +1,12 @@
 import { useMemo } from 'react';
 import { Line } from '@react-three/drei';
-import { calcZ, type Vector2 } from '../core/utils';
+import { calcZ, cholesky2, type Matrix2, type Vector2 } from '../core/utils';
 import type { Distribution } from '../distributions/Distribution';
 
 interface SigmaRingProps {
   position: Vector2 | null;
   sigma: number;
+  covariance?: Matrix2 | null;  // Draws ellipses of this covariance instead of circles
   distribution: Distribution;
   maxDensity: number;
   sigmaLevels?: number[];
@@ -15,23 +16,28 @@ interface SigmaRingProps {
 export function SigmaRing({
   position,
   sigma,
+  covariance = null,
   distribution,
   maxDensity,
   sigmaLevels = [1, 2, 3],
   show3D = true,
 }: SigmaRingProps) {
   const rings = useMemo(() => {
-    if (!position || sigma <= 0) return null;
+    if (!position || (!covariance && sigma <= 0)) return null;
+
+    // Unit circle mapped through the Cholesky factor: the k-σ contour of N(0, Σ)
+    const { l11, l21, l22 } = cholesky2(covariance ?? { xx: sigma * sigma, xy: 0, yy: sigma * sigma });
 
     return sigmaLevels.map((level) => {
       const points: [number, number, number][] = [];
       const segments = 64;
-      const radius = sigma * level;
 
       for (let i = 0; i <= segments; i++) {
         const angle = (i / segments) * Math.PI * 2;
-        const x = position.x + Math.cos(angle) * radius;
-        const z = position.y + Math.sin(angle) * radius;
+        const u = Math.cos(angle) * level;
+        const v = Math.sin(angle) * level;
+        const x = position.x + l11 * u;
+        const z = position.y + l21 * u + l22 * v;
 
         // Get height at this point on the terrain
         const density = distribution.density({ x, y: z });
@@ -43,7 +49,7 @@ export function SigmaRing({
 
       return { level, points };
     });
-  }, [position, sigma, distribution, maxDensity, sigmaLevels, show3D]);
+  }, [position, sigma, covariance, distribution, maxDensity, sigmaLevels, show3D]);
 
   if (!rings) return null;
 
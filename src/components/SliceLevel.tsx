@@ -0,0 +1,83 @@
+import * as THREE from 'three';
+import { Line } from '@react-three/drei';
+import type { Distribution } from '../distributions/Distribution';
+import type { SliceInterval, SliceState } from '../core/Visualizer';
+import { calcZ } from '../core/utils';
+
+interface SliceLevelProps {
+  slices: SliceState[];  // Slices of the current step (Visualizer.slices)
+  distribution: Distribution;
+  maxDensity: number;
+  show3D?: boolean;
+}
+
+const PHASE_COLORS: Record<SliceInterval['phase'], string> = {
+  'initial': '#e5e7eb',
+  'step-out': '#fbbf24',
+  'shrink': '#f87171',
+};
+
+// Outline of an interval at the slice height: a rectangle for a box, or a bar with
+// end ticks when it spans a single axis
+function intervalPoints({ min, max }: SliceInterval, height: number): [number, number, number][] {
+  const tick = 0.12;
+  if (min.y === max.y) {
+    return [
+      [min.x, height, min.y - tick], [min.x, height, min.y + tick], [min.x, height, min.y],
+      [max.x, height, max.y], [max.x, height, max.y - tick], [max.x, height, max.y + tick],
+    ];
+  }
+  if (min.x === max.x) {
+    return [
+      [min.x - tick, height, min.y], [min.x + tick, height, min.y], [min.x, height, min.y],
+      [max.x, height, max.y], [max.x - tick, height, max.y], [max.x + tick, height, max.y],
+    ];
+  }
+  return [
+    [min.x, height, min.y], [max.x, height, min.y], [max.x, height, max.y],
+    [min.x, height, max.y], [min.x, height, min.y],
+  ];
+}
+
+// Slice sampling: the level drawn under the density as a translucent plane cutting
+// the terrain (the terrain above it is the slice), plus the stepping-out and
+// shrinkage intervals. Earlier intervals fade; the last one holds the new draw.
+export function SliceLevel({ slices, distribution, maxDensity, show3D = true }: SliceLevelProps) {
+  if (slices.length === 0) return null;
+
+  const { xMin, xMax, yMin, yMax } = distribution.bounds;
+  const latest = slices[slices.length - 1];
+  const heightOf = (slice: SliceState) => calcZ(slice.level / maxDensity, show3D) + 0.02;
+
+  return (
+    <group>
+      {/* The level cut only makes sense against the 3D terrain */}
+      {show3D && (
+        <mesh
+          position={[(xMin + xMax) / 2, heightOf(latest), (yMin + yMax) / 2]}
+          rotation={[-Math.PI / 2, 0, 0]}
+        >
+          <planeGeometry args={[xMax - xMin, yMax - yMin]} />
+          <meshBasicMaterial color="#38bdf8" transparent opacity={0.25} side={THREE.DoubleSide} depthWrite={false} />
+        </mesh>
+      )}
+
+      {slices.map((slice, s) => {
+        const height = heightOf(slice);
+        return slice.intervals.map((interval, i) => {
+          const isFinal = s === slices.length - 1 && i === slice.intervals.length - 1;
+          return (
+            <Line
+              key={`slice-${s}-${i}`}
+              points={intervalPoints(interval, height)}
+              color={PHASE_COLORS[interval.phase]}
+              lineWidth={isFinal ? 3 : 1.5}
+              transparent
+              opacity={isFinal ? 1 : 0.35}
+            />
+          );
+        });
+      })}
+    </group>
+  );
+}
@@ -0,0 +1,89 @@
+interface TimelineScrubberProps {
+  historyLength: number;        // Recorded steps available to replay
+  replayIndex: number | null;   // Step being replayed, null when showing the latest one
+  iteration: number;            // Chain iteration of the step on screen
+  onScrub: (index: number) => void;
+  onStepBack: () => void;
+  onStepForward: () => void;
+}
+
+export function TimelineScrubber({
+  historyLength,
+  replayIndex,
+  iteration,
+  onScrub,
+  onStepBack,
+  onStepForward,
+}: TimelineScrubberProps) {
+  if (historyLength === 0) return null;
+
+  const last = historyLength - 1;
+  const index = replayIndex ?? last;
+  const isLive = replayIndex === null;
+
+  const buttonStyle = {
+    background: '#222',
+    border: '1px solid #333',
+    borderRadius: 4,
+    color: '#ddd',
+    width: 24,
+    height: 22,
+    cursor: 'pointer',
+    fontSize: 11,
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: 40,
+        left: 20,
+        width: 280,
+        background: 'rgba(17, 17, 17, 0.95)',
+        borderRadius: 8,
+        padding: '8px 12px',
+        border: '1px solid #222',
+        color: '#fff',
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+        zIndex: 100,
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          fontSize: 9,
+          color: '#999',
+          textTransform: 'uppercase',
+          letterSpacing: 0.5,
+          marginBottom: 4,
+        }}
+      >
+        <span>Timeline</span>
+        <span style={{ color: isLive ? '#4ade80' : '#fbbf24', fontFamily: 'monospace' }}>
+          {isLive ? 'live' : `replay ${index - last}`}
+        </span>
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        <button style={buttonStyle} onClick={onStepBack} disabled={index === 0} title="Step back (←)">
+          ◀
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={last}
+          step={1}
+          value={index}
+          onChange={(e) => onScrub(Number(e.target.value))}
+          style={{ flex: 1, accentColor: isLive ? '#88ccff' : '#fbbf24' }}
+        />
+        <button style={buttonStyle} onClick={onStepForward} title="Step forward (→)">
+          ▶
+        </button>
+      </div>
+      <div style={{ fontSize: 11, color: '#ddd', fontFamily: 'monospace', marginTop: 4 }}>
+        iteration {iteration}
+      </div>
+    </div>
+  );
+}
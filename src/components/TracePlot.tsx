@@ -0,0 +1,195 @@
+import { useRef, useEffect, useMemo } from 'react';
+import type { Vector2 } from '../core/utils';
+import type { Distribution } from '../distributions/Distribution';
+
+interface TracePlotProps {
+  samples: Vector2[];     // Markov chain states (Visualizer.allSamples), including repeats on rejection
+  sampleCount: number;
+  distribution: Distribution;
+  scale?: number;
+  burnIn?: number;
+  excludeBurnIn?: boolean;
+}
+
+const BASE_WIDTH = 220;
+const BASE_HEIGHT = 160;
+
+export function TracePlot({ samples, sampleCount, distribution, scale = 1, burnIn = 0, excludeBurnIn = false }: TracePlotProps) {
+  const CANVAS_WIDTH = BASE_WIDTH * scale;
+  const CANVAS_HEIGHT = BASE_HEIGHT * scale;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // True mean from the distribution (numerical integration, so compute once per target)
+  const trueMean = useMemo(() => distribution.mean(), [distribution]);
+
+  const isInBurnIn = samples.length < burnIn;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Handle high-DPI displays
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = CANVAS_WIDTH * dpr;
+    canvas.height = CANVAS_HEIGHT * dpr;
+    ctx.scale(dpr, dpr);
+
+    const width = CANVAS_WIDTH;
+    const height = CANVAS_HEIGHT;
+    const traceHeight = (height - 30) / 2;
+
+    // Clear canvas
+    ctx.clearRect(0, 0, width, height);
+
+    const { xMin, xMax, yMin, yMax } = distribution.bounds;
+
+    const startX = 30;
+    const chartWidth = width - 40;
+    const n = samples.length;
+    // Iteration axis spans at least the burn-in period so its shading is visible from the start
+    const iterations = Math.max(n, burnIn, 2);
+    const toPixelX = (i: number) => startX + (i / (iterations - 1)) * chartWidth;
+
+    // Running mean starts after burn-in when it is excluded
+    const meanStart = excludeBurnIn && !isInBurnIn ? burnIn : 0;
+
+    // Draw a single trace panel
+    const drawPanel = (
+      yOffset: number,
+      label: string,
+      values: (s: Vector2) => number,
+      target: number,
+      rangeMin: number,
+      rangeMax: number
+    ) => {
+      const range = rangeMax - rangeMin || 1;
+      const toPixelY = (v: number) => {
+        const clamped = Math.max(rangeMin, Math.min(rangeMax, v));
+        return yOffset + traceHeight - ((clamped - rangeMin) / range) * (traceHeight - 4);
+      };
+
+      // Burn-in region
+      if (burnIn > 0) {
+        ctx.fillStyle = excludeBurnIn ? 'rgba(249, 115, 22, 0.15)' : 'rgba(255, 255, 255, 0.05)';
+        ctx.fillRect(startX, yOffset, toPixelX(Math.min(burnIn, iterations - 1)) - startX, traceHeight);
+      }
+
+      // Trace: one vertical min-max segment per pixel column keeps long chains fast
+      if (n > 1) {
+        ctx.strokeStyle = 'rgba(136, 204, 255, 0.6)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        const columns = Math.max(1, Math.floor(toPixelX(n - 1) - startX));
+        const perColumn = n / columns;
+        for (let c = 0; c < columns; c++) {
+          const from = Math.floor(c * perColumn);
+          const to = Math.min(n, Math.max(from + 1, Math.floor((c + 1) * perColumn)));
+          let lo = Infinity;
+          let hi = -Infinity;
+          for (let i = from; i < to; i++) {
+            const v = values(samples[i]);
+            if (v < lo) lo = v;
+            if (v > hi) hi = v;
+          }
+          const px = startX + c + 0.5;
+          if (c === 0) {
+            ctx.moveTo(px, toPixelY(lo));
+          } else {
+            ctx.lineTo(px, toPixelY(lo));
+          }
+          ctx.lineTo(px, toPixelY(hi));
+        }
+        ctx.stroke();
+      }
+
+      // True mean
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+      ctx.setLineDash([3, 3]);
+      ctx.beginPath();
+      ctx.moveTo(startX, toPixelY(target));
+      ctx.lineTo(startX + chartWidth, toPixelY(target));
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      // Running mean
+      if (n > meanStart) {
+        ctx.strokeStyle = '#fbbf24';
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        let sum = 0;
+        // Draw at most one vertex per pixel
+        const stride = Math.max(1, Math.floor((n - meanStart) / chartWidth));
+        for (let i = meanStart; i < n; i++) {
+          sum += values(samples[i]);
+          if ((i - meanStart) % stride === 0 || i === n - 1) {
+            const px = toPixelX(i);
+            const py = toPixelY(sum / (i - meanStart + 1));
+            if (i === meanStart) {
+              ctx.moveTo(px, py);
+            } else {
+              ctx.lineTo(px, py);
+            }
+          }
+        }
+        ctx.stroke();
+      }
+
+      // Label
+      ctx.fillStyle = '#666';
+      ctx.font = '12px system-ui, -apple-system, sans-serif';
+      ctx.fillText(label, 8, yOffset + 12);
+
+      // Axis labels
+      ctx.font = '10px system-ui, -apple-system, sans-serif';
+      ctx.fillText('0', startX, yOffset + traceHeight + 10);
+      ctx.textAlign = 'right';
+      ctx.fillText(`${iterations}`, width - 8, yOffset + traceHeight + 10);
+      ctx.textAlign = 'left';
+    };
+
+    // Draw X trace (top) - uses X range
+    drawPanel(5, distribution.labels.x, (s) => s.x, trueMean.x, xMin, xMax);
+
+    // Draw Y trace (bottom) - uses Y range
+    drawPanel(traceHeight + 20, distribution.labels.y, (s) => s.y, trueMean.y, yMin, yMax);
+
+    }, [samples, sampleCount, distribution, scale, burnIn, excludeBurnIn, isInBurnIn, trueMean, CANVAS_WIDTH, CANVAS_HEIGHT]);
+
+  return (
+    <div
+      style={{
+        background: 'rgba(17, 17, 17, 0.95)',
+        borderRadius: 8,
+        padding: 8,
+        border: '1px solid #222',
+        position: 'relative',
+      }}
+    >
+      <div
+        style={{
+          position: 'absolute',
+          top: 8,
+          right: 8,
+          textAlign: 'right',
+          fontSize: 10,
+          fontFamily: 'system-ui, -apple-system, sans-serif',
+        }}
+      >
+        <div style={{ color: '#fbbf24' }}>running mean</div>
+        <div style={{ color: '#666' }}>- - true mean</div>
+      </div>
+      <canvas
+        ref={canvasRef}
+        style={{
+          display: 'block',
+          borderRadius: 4,
+          width: CANVAS_WIDTH,
+          height: CANVAS_HEIGHT,
+        }}
+      />
+    </div>
+  );
+}
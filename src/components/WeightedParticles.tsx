@@ -0,0 +1,49 @@
+import type { Distribution } from '../distributions/Distribution';
+import { calcZ, type Vector2 } from '../core/utils';
+
+interface WeightedParticlesProps {
+  points: Vector2[] | null;
+  weights: number[];
+  distribution: Distribution;
+  maxDensity: number;
+  sphereSize?: number;
+  show3D?: boolean;
+}
+
+export function WeightedParticles({ points, weights, distribution, maxDensity, sphereSize = 1, show3D = true }: WeightedParticlesProps) {
+  if (!points || points.length === 0) return null;
+
+  const n = points.length;
+
+  return (
+    <group>
+      {points.map((point, i) => {
+        const normalizedDensity = distribution.density(point) / maxDensity;
+        const z = calcZ(normalizedDensity, show3D) + 0.01;
+
+        // Relative weight: 1 means the particle carries exactly its uniform share (1/n)
+        const relativeWeight = (weights[i] ?? 0) * n;
+        // Sphere area proportional to weight, clamped so negligible particles stay visible
+        const scale = Math.min(3, Math.max(0.25, Math.sqrt(relativeWeight)));
+        const opacity = Math.min(0.9, 0.25 + 0.35 * relativeWeight);
+
+        return (
+          <mesh
+            key={`particle-${i}`}
+            position={[point.x, z, point.y]}
+            scale={scale}
+          >
+            <sphereGeometry args={[0.05 * sphereSize, 10, 10]} />
+            <meshStandardMaterial
+              color="#fbbf24"
+              emissive="#f59e0b"
+              emissiveIntensity={0.4}
+              transparent
+              opacity={opacity}
+            />
+          </mesh>
+        );
+      })}
+    </group>
+  );
+}
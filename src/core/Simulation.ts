@@ -1,27 +1,68 @@
-import type { MCMCAlgorithm } from '../algorithms/MCMCAlgorithm';
+import { setParameter, type MCMCAlgorithm, type ParameterValue } from '../algorithms/MCMCAlgorithm';
+import { createAlgorithm, type AlgorithmType } from '../algorithms';
 import type { Distribution } from '../distributions/Distribution';
 import { Visualizer } from './Visualizer';
+import { getChainColor } from './colormap';
+import { Random, randomSeed } from './random';
+import { splitRHat, computeChainDiagnostics, type ChainDiagnostics } from './diagnostics';
+import type { Vector2 } from './utils';
+
+// How a step is shown: fully animated, fast-forwarded (trail and position only),
+// or not at all (headless runs drop the events)
+export type StepMode = 'render' | 'fast' | 'headless';
+
+// One independent chain: its own algorithm instance and event state
+export interface ChainRun {
+  algorithm: MCMCAlgorithm;
+  visualizer: Visualizer;
+  color: string;
+  samplingTime: number;  // ms spent inside this chain's steps
+}
 
 export class Simulation {
   algorithm: MCMCAlgorithm | null = null;
+  private algorithmType: AlgorithmType | null = null;
   distribution: Distribution | null = null;
   visualizer: Visualizer;
 
+  // Chain 0 is always (algorithm, visualizer); extra chains share their parameters
+  chains: ChainRun[] = [];
+  numChains: number = 1;
+
+  // Every run is reproducible from this seed: a master stream seeded with it hands out
+  // the seeds of the start-position stream and of each chain's stream, in that order
+  seed: number = randomSeed();
+  private random: Random = new Random(this.seed);
+
   isRunning: boolean = false;
   delay: number = 100; // ms between steps
+  // Turbo runs stepsPerFrame fast-forwarded steps per animation frame and ignores delay
+  turbo: boolean = false;
+  stepsPerFrame: number = 100;
+  private remainingSteps: number = 0; // Left in a runSamples() batch
   totalSamples: number = 0;
   private animationId: number | null = null;
+  private delayTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  // ACF/ESS are recomputed at most this often (ms) since they cost O(n log n)
+  diagnosticsInterval: number = 500;
+  private diagnosticsCache: { key: string; time: number; result: ChainDiagnostics } | null = null;
 
   constructor() {
     this.visualizer = new Visualizer();
   }
 
-  setAlgorithm(algorithm: MCMCAlgorithm): void {
+  // Switch chain 0 to a fresh instance of the given algorithm (returned); extra chains
+  // are created from the same registry entry
+  setAlgorithm(type: AlgorithmType): MCMCAlgorithm {
+    const algorithm = createAlgorithm(type);
+    this.algorithmType = type;
     this.algorithm = algorithm;
     if (this.distribution) {
-      this.algorithm.setDistribution(this.distribution);
+      algorithm.setDistribution(this.distribution);
       this.initialize();
     }
+    return algorithm;
   }
 
   setDistribution(distribution: Distribution): void {
@@ -32,42 +73,141 @@ export class Simulation {
     }
   }
 
+  // Swap in an edited target without restarting the chains (e.g. while dragging
+  // mixture components); the chains simply continue under the new density
+  updateDistribution(distribution: Distribution): void {
+    this.distribution = distribution;
+    for (const chain of this.chains) {
+      chain.algorithm.setDistribution(distribution);
+    }
+  }
+
   initialize(): void {
-    if (!this.algorithm || !this.distribution) return;
+    if (!this.algorithm || !this.algorithmType || !this.distribution) return;
     this.algorithm.init();
-    this.algorithm.reset();
-    this.visualizer.reset();
     this.totalSamples = 0;
+    this.diagnosticsCache = null;
 
-    // Set initial position from algorithm's chain
-    const chain = this.algorithm.getChain();
-    if (chain.length > 0) {
-      this.visualizer.currentPosition = chain[0];
-      this.visualizer.acceptedSamples = [chain[0]];
-      this.visualizer.allSamples = [chain[0]];
+    // Extra chains run fresh instances of the same algorithm
+    this.chains = [{ algorithm: this.algorithm, visualizer: this.visualizer, color: getChainColor(0), samplingTime: 0 }];
+    for (let c = 1; c < this.numChains; c++) {
+      const algorithm = createAlgorithm(this.algorithmType);
+      algorithm.setDistribution(this.distribution);
+      algorithm.init();
+      this.chains.push({ algorithm, visualizer: new Visualizer(), color: getChainColor(c), samplingTime: 0 });
+    }
+
+    this.reseed();
+
+    // A single chain starts at the origin; multiple chains start dispersed over the bounds
+    for (const chain of this.chains) {
+      this.resetChain(chain, this.numChains > 1 ? this.randomStartPosition() : undefined);
+    }
+  }
+
+  setSeed(seed: number): void {
+    this.seed = Math.round(seed) >>> 0;
+    this.pause();
+    this.initialize();
+  }
+
+  setNumChains(numChains: number): void {
+    this.numChains = Math.max(1, Math.round(numChains));
+    this.initialize();
+  }
+
+  // Propagate a parameter change made on chain 0 to every other chain
+  setChainParameter(key: string, value: ParameterValue): void {
+    for (const chain of this.chains.slice(1)) {
+      setParameter(chain.algorithm, key, value);
     }
   }
 
-  step(): void {
+  // Advance every chain by one iteration
+  step(mode: StepMode = 'render'): void {
     if (!this.algorithm) return;
-    this.algorithm.step(this.visualizer);
-    // Dequeue all events from this step
-    this.visualizer.dequeueAll();
+    this.resumeLive();
+    for (const chain of this.chains) {
+      // Every chain warms up (HMC/NUTS adaptation) over chain 0's burn-in period
+      chain.visualizer.burnIn = this.visualizer.burnIn;
+      const start = performance.now();
+      chain.algorithm.step(chain.visualizer);
+      chain.samplingTime += performance.now() - start;
+      // Statistics read the algorithm's own chain (one state per iteration)
+      chain.visualizer.allSamples = chain.algorithm.getChain();
+      if (mode === 'headless') {
+        chain.visualizer.queue.length = 0;
+      } else {
+        // Dequeue all events from this step
+        chain.visualizer.dequeueAll(mode === 'render');
+      }
+    }
     this.totalSamples++;
   }
 
+  // Timeline of recorded steps (every chain records the same steps)
+  get historyLength(): number {
+    return this.visualizer.history.length;
+  }
+
+  // Index of the step being replayed, or null when showing the latest state
+  get replayIndex(): number | null {
+    return this.visualizer.replayIndex;
+  }
+
+  scrubTo(index: number): void {
+    const last = this.historyLength - 1;
+    if (last < 0) return;
+    this.pause();
+    const target = Math.max(0, Math.min(last, Math.round(index)));
+    if (target === last) {
+      this.resumeLive();
+      return;
+    }
+    for (const chain of this.chains) {
+      chain.visualizer.showStep(target);
+    }
+  }
+
+  stepBack(): void {
+    const current = this.replayIndex ?? this.historyLength - 1;
+    if (current > 0) this.scrubTo(current - 1);
+  }
+
+  // Move forward through the timeline, running a new step once at the latest one
+  stepForward(): void {
+    if (this.replayIndex === null) {
+      this.step();
+    } else {
+      this.scrubTo(this.replayIndex + 1);
+    }
+  }
+
   play(): void {
     if (this.isRunning) return;
     this.isRunning = true;
     this.animate();
   }
 
+  // Fast-forward by a fixed number of iterations, then pause
+  runSamples(count: number): void {
+    this.pause();
+    this.remainingSteps = Math.max(0, Math.round(count));
+    this.play();
+  }
+
   pause(): void {
     this.isRunning = false;
+    this.remainingSteps = 0;
     if (this.animationId !== null) {
       cancelAnimationFrame(this.animationId);
       this.animationId = null;
     }
+    // A pending delay would otherwise start a second loop after the next play()
+    if (this.delayTimeout !== null) {
+      clearTimeout(this.delayTimeout);
+      this.delayTimeout = null;
+    }
   }
 
   toggle(): void {
@@ -86,24 +226,153 @@ export class Simulation {
   setStartPosition(position: { x: number; y: number }): void {
     if (!this.algorithm) return;
 
-    // Reset the algorithm with the new starting position
-    this.algorithm.reset(position);
-    this.visualizer.reset();
+    // Chain 0 starts at the chosen position, other chains are re-dispersed
+    this.reseed();
+    this.chains.forEach((chain, c) => {
+      this.resetChain(chain, c === 0 ? position : this.randomStartPosition());
+    });
+    for (const chain of this.chains) {
+      chain.samplingTime = 0;
+    }
     this.totalSamples = 0;
+    this.diagnosticsCache = null;
+  }
+
+  // Samples from all chains for the statistics panels.
+  // Multiple chains are interleaved iteration by iteration, so burn-in covers
+  // burnIn × numChains entries of the combined array.
+  getCombinedSamples(): Vector2[] {
+    if (this.chains.length <= 1) return this.visualizer.allSamples;
+
+    const chainStates = this.chains.map(c => c.visualizer.allSamples);
+    const length = Math.min(...chainStates.map(s => s.length));
+    const combined: Vector2[] = [];
+    for (let k = 0; k < length; k++) {
+      for (const states of chainStates) {
+        combined.push(states[k]);
+      }
+    }
+    return combined;
+  }
+
+  // Divergent transitions after warmup over all chains, as drawn (so it follows the
+  // timeline); null for algorithms that cannot diverge
+  getDivergenceCount(): number | null {
+    if (!this.algorithm?.getDivergenceCount) return null;
+    return this.chains.reduce((sum, c) => sum + c.visualizer.divergences.filter(d => !d.warmup).length, 0);
+  }
+
+  // Divergent transitions during step size adaptation over all chains, as drawn
+  getWarmupDivergenceCount(): number {
+    return this.chains.reduce((sum, c) => sum + c.visualizer.divergences.filter(d => d.warmup).length, 0);
+  }
+
+  // Split-R̂ for each coordinate across chains (post burn-in when excluded)
+  computeRHat(): { x: number; y: number } | null {
+    if (this.chains.length < 2) return null;
+
+    const { burnIn, excludeBurnIn } = this.visualizer;
+    const chainStates = this.chains.map(c => {
+      const states = c.visualizer.allSamples;
+      return excludeBurnIn && states.length >= burnIn ? states.slice(burnIn) : states;
+    });
+
+    return {
+      x: splitRHat(chainStates.map(s => s.map(p => p.x))),
+      y: splitRHat(chainStates.map(s => s.map(p => p.y))),
+    };
+  }
+
+  // ms chain 0 spent inside algorithm steps (excludes rendering and delay), so it
+  // pairs with the chain-0 diagnostics for ESS per second
+  get samplingTime(): number {
+    return this.chains[0]?.samplingTime ?? 0;
+  }
+
+  // Autocorrelation and ESS of chain 0 (post burn-in when excluded), throttled
+  getChainDiagnostics(): ChainDiagnostics | null {
+    const { allSamples, burnIn, excludeBurnIn } = this.visualizer;
+    const isInBurnIn = allSamples.length < burnIn;
+    const samples = (excludeBurnIn && !isInBurnIn) ? allSamples.slice(burnIn) : allSamples;
+    if (samples.length < 4) return null;
+
+    const key = `${allSamples.length}:${samples.length}`;
+    const now = performance.now();
+    const cache = this.diagnosticsCache;
+    if (cache && (cache.key === key || now - cache.time < this.diagnosticsInterval)) {
+      return cache.result;
+    }
+
+    const result = computeChainDiagnostics(samples);
+    this.diagnosticsCache = { key, time: now, result };
+    return result;
+  }
+
+  // Leave replay on every chain
+  private resumeLive(): void {
+    for (const chain of this.chains) {
+      chain.visualizer.resumeLive();
+    }
+  }
+
+  // Restart every random stream from the seed
+  private reseed(): void {
+    const master = new Random(this.seed);
+    this.random = master.split();
+    for (const chain of this.chains) {
+      chain.algorithm.setRandom(master.split());
+    }
+  }
+
+  private resetChain(chain: ChainRun, position?: Vector2): void {
+    chain.algorithm.reset(position);
+    chain.visualizer.reset();
+
+    // Set initial position from algorithm's chain
+    const states = chain.algorithm.getChain();
+    chain.visualizer.allSamples = states;
+    if (states.length > 0) {
+      chain.visualizer.currentPosition = states[0];
+      chain.visualizer.acceptedSamples = [states[0]];
+      chain.visualizer.acceptedIterations = [0];
+    }
+  }
 
-    // Set the new position
-    this.visualizer.currentPosition = position;
-    this.visualizer.acceptedSamples = [position];
-    this.visualizer.allSamples = [position];
+  // Uniform draw within the distribution's plotting bounds
+  private randomStartPosition(): Vector2 {
+    if (!this.distribution) return { x: 0, y: 0 };
+    const { xMin, xMax, yMin, yMax } = this.distribution.bounds;
+    return {
+      x: xMin + this.random.uniform() * (xMax - xMin),
+      y: yMin + this.random.uniform() * (yMax - yMin),
+    };
   }
 
   private animate = (): void => {
     if (!this.isRunning) return;
 
+    if (this.turbo || this.remainingSteps > 0) {
+      let batch = Math.max(1, Math.round(this.stepsPerFrame));
+      if (this.remainingSteps > 0) batch = Math.min(batch, this.remainingSteps);
+      for (let i = 0; i < batch; i++) {
+        this.step('fast');
+      }
+      if (this.remainingSteps > 0) {
+        this.remainingSteps -= batch;
+        if (this.remainingSteps === 0) {
+          this.pause();
+          return;
+        }
+      }
+      this.animationId = requestAnimationFrame(this.animate);
+      return;
+    }
+
     this.step();
 
     // Use delay to control speed
-    setTimeout(() => {
+    this.delayTimeout = setTimeout(() => {
+      this.delayTimeout = null;
       this.animationId = requestAnimationFrame(this.animate);
     }, this.delay);
   };
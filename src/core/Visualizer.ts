@@ -1,15 +1,111 @@
-import type { Vector2 } from './utils';
+import { weightsESS, type Matrix2, type Vector2 } from './utils';
 import type { ColorScheme } from './colormap';
 export type { ColorScheme } from './colormap';
 
 export type VisualizationEvent =
-  | { type: 'proposal'; from: Vector2; to: Vector2; radius?: number }
+  | { type: 'proposal'; from: Vector2; to: Vector2; radius?: number; covariance?: Matrix2 }
+  | { type: 'delayedProposal'; from: Vector2; rejected: Vector2; to: Vector2; radius: number }
+  | ({ type: 'candidates' } & CandidateSet)
   | { type: 'accept'; position: Vector2 }
   | { type: 'reject'; position: Vector2 }
   | { type: 'trajectory'; path: Vector2[]; momentum?: Vector2 }
   | { type: 'gradient'; position: Vector2; direction: Vector2 }
   | { type: 'langevin'; gradient: Vector2; driftPoint: Vector2; noiseRadius: number }
-  | { type: 'particles'; points: Vector2[]; weights: number[] };
+  | { type: 'particles'; points: Vector2[]; weights: number[] }
+  | { type: 'replicas'; positions: Vector2[]; temperatures: number[] }
+  | { type: 'swap'; i: number; j: number; accepted: boolean }
+  | ({ type: 'divergence'; energyError: number } & Divergence)
+  | { type: 'slice'; position: Vector2; logLevel: number }
+  | ({ type: 'sliceInterval' } & SliceInterval)
+  | { type: 'ellipse'; center: Vector2; a: Vector2; b: Vector2 }
+  | ({ type: 'ellipseBracket' } & EllipseBracket)
+  | { type: 'ensemble'; positions: Vector2[] }
+  | ({ type: 'stretch' } & StretchMove)
+  | ({ type: 'differential' } & DifferentialMove)
+  | ({ type: 'bounce' } & BounceEvent);
+
+// Multiple-try Metropolis: the candidates of one step with their normalized selection
+// weights, the selected index and the reference set drawn around the selected one
+export interface CandidateSet {
+  points: Vector2[];
+  weights: number[];
+  selected: number;
+  references: Vector2[];
+}
+
+// Starting point of a divergent transition; warmup ones happened while the step size
+// was still being adapted
+export interface Divergence {
+  position: Vector2;
+  warmup: boolean;
+}
+
+// Velocity change of a piecewise deterministic sampler: a bounce (or zig-zag flip)
+// driven by the target, or a refreshment drawn independently of it
+export interface BounceEvent {
+  position: Vector2;
+  kind: 'bounce' | 'refresh';
+}
+
+// Differential evolution move of one chain: the proposal adds the difference of the
+// two donors (projected onto the line through the anchor for a snooker update)
+export interface DifferentialMove {
+  walker: number;
+  from: Vector2;
+  to: Vector2;
+  donors: [Vector2, Vector2];
+  anchor?: Vector2;
+  accepted: boolean;
+}
+
+// Stretch move of one ensemble walker: the proposal lies on the line from the
+// partner walker through the walker's position
+export interface StretchMove {
+  walker: number;
+  partner: Vector2;
+  from: Vector2;
+  to: Vector2;
+  accepted: boolean;
+}
+
+// Interval of a slice update: a box for the hyperrectangle sampler, a bar along one
+// axis (min and max differ in one coordinate) for the coordinate-wise sampler
+export interface SliceInterval {
+  min: Vector2;
+  max: Vector2;
+  phase: 'initial' | 'step-out' | 'shrink';
+}
+
+// Angle bracket [min, max] of elliptical slice sampling and the angle drawn from it
+export interface EllipseBracket {
+  min: number;
+  max: number;
+  angle: number;
+}
+
+// Ellipse center + a cos θ + b sin θ through the current point (θ = 0) and its brackets
+export interface EllipseState {
+  center: Vector2;
+  a: Vector2;
+  b: Vector2;
+  brackets: EllipseBracket[];
+}
+
+// One slice update: the level drawn under the density at position and its successive intervals
+export interface SliceState {
+  position: Vector2;
+  level: number;  // Density height of the slice, exp(logLevel)
+  intervals: SliceInterval[];
+}
+
+// Everything needed to redraw one step: the events it emitted plus the state just before them
+export interface StepRecord {
+  events: VisualizationEvent[];
+  currentPosition: Vector2 | null;
+  trailCount: number;    // Accepted moves added to the trail before this step
+  divergenceCount: number;  // Divergences recorded before this step
+  chainLength: number;   // Length of the Markov chain after this step
+}
 
 export class Visualizer {
   queue: VisualizationEvent[] = [];
@@ -18,8 +114,20 @@ export class Visualizer {
   currentPosition: Vector2 | null = null;
   proposalPosition: Vector2 | null = null;
   proposalRadius: number = 0;
-  acceptedSamples: Vector2[] = [];      // Limited for visual trail
-  allSamples: Vector2[] = [];           // All samples for statistics
+  proposalCovariance: Matrix2 | null = null;  // Full proposal covariance when not isotropic
+  rejectedProposal: Vector2 | null = null;    // Delayed rejection: the first-stage proposal
+  proposalStage: number = 1;                  // Delayed rejection: stage of proposalPosition
+  candidates: CandidateSet | null = null;     // Multiple-try Metropolis
+  // Two sample sets with different purposes:
+  // - acceptedSamples: visual trail built from 'accept' events (limited length, includes
+  //   intermediate moves such as Gibbs half-steps, no repeats on rejection).
+  //   Used by SamplePoints and SampleTrail in the 3D scene.
+  // - allSamples: the algorithm's actual Markov chain (MCMCAlgorithm.getChain()), one state
+  //   per iteration with repeats on rejection. Set by Simulation, never by events.
+  //   Used by HeatmapPanel, MarginalHistograms, TracePlot, diagnostics and CSV export.
+  acceptedSamples: Vector2[] = [];
+  acceptedIterations: number[] = [];   // Chain index of each trail entry (for burn-in filtering)
+  allSamples: Vector2[] = [];
   trajectoryPath: Vector2[] | null = null;
   momentum: Vector2 | null = null;
 
@@ -34,6 +142,42 @@ export class Visualizer {
   langevinDriftPoint: Vector2 | null = null;
   langevinNoiseRadius: number = 0;
 
+  // Importance sampling particles (weights are normalized)
+  particles: Vector2[] | null = null;
+  particleWeights: number[] = [];
+  particleESS: number = 0;
+
+  // Parallel tempering visualization
+  replicaPositions: Vector2[] | null = null;
+  replicaTemperatures: number[] = [];
+  lastSwap: { i: number; j: number; accepted: boolean } | null = null;
+  private swapFlashTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  // Population samplers: all walkers (index 0 is the chain) and this step's moves
+  ensemblePositions: Vector2[] | null = null;
+  stretchMoves: StretchMove[] = [];
+  differentialMoves: DifferentialMove[] = [];
+
+  // Piecewise deterministic samplers: velocity changes along this step's path
+  bounces: BounceEvent[] = [];
+
+  // Slice sampling: every slice of the current step, in order
+  slices: SliceState[] = [];
+  // Elliptical slice sampling: the ellipse of the current step
+  ellipse: EllipseState | null = null;
+
+  // Starting points of divergent transitions; kept for the whole run
+  divergences: Divergence[] = [];
+
+  // Timeline: one record per dequeued step, oldest dropped beyond maxHistory.
+  // While replayIndex is set the scene shows that past step; the live trail and
+  // chain are kept aside until resumeLive().
+  history: StepRecord[] = [];
+  maxHistory: number = 1000;
+  replayIndex: number | null = null;
+  private trailCount: number = 0;
+  private live: { trail: Vector2[]; iterations: number[]; allSamples: Vector2[]; divergences: Divergence[] } | null = null;
+
   // Visual settings
   private _maxTrailLength: number = 500;
   terrainOpacity: number = 0.85;
@@ -49,12 +193,25 @@ export class Visualizer {
   showLangevinGradient: boolean = true;
   showLangevinDrift: boolean = true;
   showLangevinNoise: boolean = true;
+  showReplicas: boolean = true;
+  showParticles: boolean = true;
+  showMixtureEditor: boolean = false;
+  showDivergences: boolean = true;
+  showSlices: boolean = true;
+  showEllipse: boolean = true;
+  showEnsemble: boolean = true;
+  showStretchMoves: boolean = true;
+  showDifferentialMoves: boolean = true;
+  showBounces: boolean = true;
+  showCandidates: boolean = true;
   colorScheme: ColorScheme = 'terrain';
   histogramBins: number = 25;
   sphereSize: number = 1.0;
   autoRotate: boolean = true;
   showHeatmap: boolean = true;
   showHistogram: boolean = true;
+  showTrace: boolean = false;
+  showAutocorrelation: boolean = false;
   burnIn: number = 200;
   excludeBurnIn: boolean = true;
 
@@ -67,6 +224,7 @@ export class Visualizer {
     // Immediately trim if needed
     while (this.acceptedSamples.length > value) {
       this.acceptedSamples.shift();
+      this.acceptedIterations.shift();
     }
   }
 
@@ -78,6 +236,7 @@ export class Visualizer {
   // Pending updates (applied on next step)
   private pendingPosition: Vector2 | null = null;
   private pendingSample: Vector2 | null = null;
+  private pendingIteration: number = 0;
 
   dequeue(): void {
     const event = this.queue.shift();
@@ -85,7 +244,9 @@ export class Visualizer {
     this.processEvent(event);
   }
 
-  dequeueAll(): void {
+  // Process every queued event. With animate = false (fast-forward) only accepted
+  // moves are applied: no proposal, trajectory, overlay or flash is drawn.
+  dequeueAll(animate: boolean = true): void {
     // Apply pending updates from previous step first
     if (this.pendingPosition) {
       this.currentPosition = this.pendingPosition;
@@ -93,12 +254,38 @@ export class Visualizer {
     }
     if (this.pendingSample) {
       this.acceptedSamples.push(this.pendingSample);
+      this.acceptedIterations.push(this.pendingIteration);
       if (this.acceptedSamples.length > this._maxTrailLength) {
         this.acceptedSamples.shift();
+        this.acceptedIterations.shift();
       }
+      this.trailCount++;
       this.pendingSample = null;
     }
 
+    this.history.push({
+      events: this.queue.slice(),
+      currentPosition: this.currentPosition,
+      trailCount: this.trailCount,
+      divergenceCount: this.divergences.length,
+      chainLength: this.allSamples.length,
+    });
+    if (this.history.length > this.maxHistory) {
+      this.history.shift();
+    }
+
+    if (!animate) {
+      this.clearStepState();
+      for (const event of this.queue) {
+        if (event.type === 'accept') this.setPendingAccept(event.position);
+        if (event.type === 'divergence') this.divergences.push({ position: event.position, warmup: event.warmup });
+      }
+      this.queue = [];
+      return;
+    }
+
+    // Overlays that collect one entry per event only show the latest step
+    this.clearStepMoves();
     while (this.queue.length > 0) {
       const event = this.queue.shift();
       if (event) this.processEvent(event);
@@ -110,15 +297,33 @@ export class Visualizer {
       case 'proposal':
         this.proposalPosition = event.to;
         this.proposalRadius = event.radius || 0;
+        this.proposalCovariance = event.covariance || null;
+        this.rejectedProposal = null;
+        this.proposalStage = 1;
         // Reset accept/reject state for new proposal
         this.proposalAccepted = null;
         break;
 
+      case 'delayedProposal':
+        // The first stage was rejected; keep it on screen next to the second try
+        this.rejectedProposal = event.rejected;
+        this.proposalPosition = event.to;
+        this.proposalRadius = event.radius;
+        this.proposalStage = 2;
+        this.proposalAccepted = null;
+        break;
+
+      case 'candidates':
+        this.candidates = {
+          points: event.points,
+          weights: event.weights,
+          selected: event.selected,
+          references: event.references,
+        };
+        break;
+
       case 'accept':
-        // Store position and sample as pending - will be applied on next step
-        this.pendingPosition = event.position;
-        this.pendingSample = event.position;
-        this.allSamples.push(event.position);
+        this.setPendingAccept(event.position);
 
         // Mark proposal as accepted
         this.proposalAccepted = true;
@@ -159,11 +364,187 @@ export class Visualizer {
         break;
 
       case 'particles':
-        // Handle particle system (for Importance Sampling)
+        this.particles = event.points;
+        this.particleWeights = event.weights;
+        this.particleESS = weightsESS(event.weights);
+        break;
+
+      case 'replicas':
+        this.replicaPositions = event.positions;
+        this.replicaTemperatures = event.temperatures;
+        break;
+
+      case 'swap':
+        // Keep the swapped pair highlighted briefly
+        this.lastSwap = { i: event.i, j: event.j, accepted: event.accepted };
+        if (this.swapFlashTimeout) clearTimeout(this.swapFlashTimeout);
+        this.swapFlashTimeout = setTimeout(() => {
+          this.lastSwap = null;
+          this.swapFlashTimeout = null;
+        }, 300);
+        break;
+
+      case 'divergence':
+        this.divergences.push({ position: event.position, warmup: event.warmup });
+        break;
+
+      case 'slice':
+        this.slices.push({ position: event.position, level: Math.exp(event.logLevel), intervals: [] });
+        break;
+
+      case 'sliceInterval':
+        this.slices.last()?.intervals.push({ min: event.min, max: event.max, phase: event.phase });
+        break;
+
+      case 'ensemble':
+        this.ensemblePositions = event.positions;
+        break;
+
+      case 'stretch':
+        this.stretchMoves.push({
+          walker: event.walker,
+          partner: event.partner,
+          from: event.from,
+          to: event.to,
+          accepted: event.accepted,
+        });
+        break;
+
+      case 'differential':
+        this.differentialMoves.push({
+          walker: event.walker,
+          from: event.from,
+          to: event.to,
+          donors: event.donors,
+          anchor: event.anchor,
+          accepted: event.accepted,
+        });
+        break;
+
+      case 'bounce':
+        this.bounces.push({ position: event.position, kind: event.kind });
+        break;
+
+      case 'ellipse':
+        this.ellipse = { center: event.center, a: event.a, b: event.b, brackets: [] };
+        break;
+
+      case 'ellipseBracket':
+        this.ellipse?.brackets.push({ min: event.min, max: event.max, angle: event.angle });
         break;
     }
   }
 
+  // Store position and sample as pending - will be applied on next step
+  private setPendingAccept(position: Vector2): void {
+    this.pendingPosition = position;
+    this.pendingSample = position;
+    // The algorithm has already recorded this iteration in its chain
+    this.pendingIteration = Math.max(0, this.allSamples.length - 1);
+  }
+
+  // Redraw a recorded step as it looked when it was dequeued
+  showStep(index: number): void {
+    const record = this.history[index];
+    if (!record) return;
+    if (!this.live) {
+      this.live = {
+        trail: this.acceptedSamples,
+        iterations: this.acceptedIterations,
+        allSamples: this.allSamples,
+        divergences: this.divergences,
+      };
+    }
+
+    // Drop the trail entries, chain states and divergences added after this step
+    const { trail, iterations, allSamples, divergences } = this.live;
+    const keep = Math.max(0, trail.length - (this.trailCount - record.trailCount));
+    this.applyRecord(
+      record,
+      trail.slice(0, keep),
+      iterations.slice(0, keep),
+      allSamples.slice(0, record.chainLength),
+      divergences.slice(0, record.divergenceCount)
+    );
+    this.replayIndex = index;
+  }
+
+  // Return from a replayed step to the latest state so the run can continue
+  resumeLive(): void {
+    if (!this.live) return;
+    const { trail, iterations, allSamples, divergences } = this.live;
+    this.live = null;
+    this.replayIndex = null;
+    const latest = this.history[this.history.length - 1];
+    if (latest) {
+      // Replaying the latest events also restores the pending accept for the next step
+      // (and re-adds its divergence, so the list is cut back to before it)
+      this.applyRecord(latest, trail, iterations, allSamples, divergences.slice(0, latest.divergenceCount));
+    }
+  }
+
+  private applyRecord(
+    record: StepRecord,
+    trail: Vector2[],
+    iterations: number[],
+    allSamples: Vector2[],
+    divergences: Divergence[]
+  ): void {
+    this.clearStepState();
+    this.acceptedSamples = trail;
+    this.acceptedIterations = iterations;
+    this.allSamples = allSamples;
+    this.divergences = divergences;
+    this.currentPosition = record.currentPosition;
+    for (const event of record.events) {
+      this.processEvent(event);
+    }
+  }
+
+  // Clear everything a single step draws (proposal, trajectory, sampler-specific overlays)
+  private clearStepState(): void {
+    this.proposalPosition = null;
+    this.proposalRadius = 0;
+    this.proposalCovariance = null;
+    this.rejectedProposal = null;
+    this.proposalStage = 1;
+    this.candidates = null;
+    this.proposalAccepted = null;
+    this.pendingPosition = null;
+    this.pendingSample = null;
+    this.trajectoryPath = null;
+    this.fullTrajectoryPath = null;
+    this.trajectoryAnimationIndex = 0;
+    this.momentum = null;
+    this.langevinGradient = null;
+    this.langevinDriftPoint = null;
+    this.langevinNoiseRadius = 0;
+    this.particles = null;
+    this.particleWeights = [];
+    this.particleESS = 0;
+    this.replicaPositions = null;
+    this.replicaTemperatures = [];
+    this.lastSwap = null;
+    this.ellipse = null;
+    this.ensemblePositions = null;
+    this.clearStepMoves();
+  }
+
+  private clearStepMoves(): void {
+    this.slices = [];
+    this.stretchMoves = [];
+    this.differentialMoves = [];
+    this.bounces = [];
+  }
+
+  // Visual trail, dropping entries from the burn-in period once it has passed
+  getTrail(burnIn: number, excludeBurnIn: boolean): Vector2[] {
+    const isInBurnIn = this.allSamples.length < burnIn;
+    if (!excludeBurnIn || isInBurnIn) return this.acceptedSamples;
+    const start = this.acceptedIterations.findIndex(i => i >= burnIn);
+    return start === -1 ? [] : this.acceptedSamples.slice(start);
+  }
+
   // Check if trajectory animation is in progress
   isTrajectoryAnimating(): boolean {
     return (
@@ -190,18 +571,14 @@ export class Visualizer {
   reset(): void {
     this.queue = [];
     this.currentPosition = null;
-    this.proposalPosition = null;
-    this.pendingPosition = null;
-    this.pendingSample = null;
-    this.proposalAccepted = null;
+    this.clearStepState();
     this.acceptedSamples = [];
+    this.acceptedIterations = [];
     this.allSamples = [];
-    this.trajectoryPath = null;
-    this.fullTrajectoryPath = null;
-    this.trajectoryAnimationIndex = 0;
-    this.momentum = null;
-    this.langevinGradient = null;
-    this.langevinDriftPoint = null;
-    this.langevinNoiseRadius = 0;
+    this.divergences = [];
+    this.history = [];
+    this.replayIndex = null;
+    this.trailCount = 0;
+    this.live = null;
   }
 }
@@ -0,0 +1,173 @@
+// Forward-mode automatic differentiation with dual numbers.
+// A Dual carries a value and its partial derivatives with respect to x and y, so a
+// single evaluation of a 2D function yields the function value and its exact gradient.
+
+export type DualLike = Dual | number;
+
+// Chain rule helper: a zero tangent stays zero even where f' is infinite (e.g. sqrt at 0)
+function scale(tangent: number, derivative: number): number {
+  return tangent === 0 ? 0 : tangent * derivative;
+}
+
+export class Dual {
+  constructor(
+    readonly value: number,
+    readonly dx: number = 0,
+    readonly dy: number = 0
+  ) {}
+
+  // Seed the two input variables for a gradient evaluation
+  static variables(x: number, y: number): { x: Dual; y: Dual } {
+    return { x: new Dual(x, 1, 0), y: new Dual(y, 0, 1) };
+  }
+
+  static lift(v: DualLike): Dual {
+    return v instanceof Dual ? v : new Dual(v);
+  }
+
+  // Apply a scalar function with known derivative f'(value)
+  private apply(value: number, derivative: number): Dual {
+    return new Dual(value, scale(this.dx, derivative), scale(this.dy, derivative));
+  }
+
+  add(other: DualLike): Dual {
+    const b = Dual.lift(other);
+    return new Dual(this.value + b.value, this.dx + b.dx, this.dy + b.dy);
+  }
+
+  sub(other: DualLike): Dual {
+    const b = Dual.lift(other);
+    return new Dual(this.value - b.value, this.dx - b.dx, this.dy - b.dy);
+  }
+
+  mul(other: DualLike): Dual {
+    const b = Dual.lift(other);
+    return new Dual(
+      this.value * b.value,
+      scale(this.dx, b.value) + scale(b.dx, this.value),
+      scale(this.dy, b.value) + scale(b.dy, this.value)
+    );
+  }
+
+  div(other: DualLike): Dual {
+    const b = Dual.lift(other);
+    const inv = 1 / b.value;
+    const value = this.value * inv;
+    return new Dual(
+      value,
+      scale(this.dx, inv) - scale(b.dx, value * inv),
+      scale(this.dy, inv) - scale(b.dy, value * inv)
+    );
+  }
+
+  neg(): Dual {
+    return new Dual(-this.value, -this.dx, -this.dy);
+  }
+
+  pow(exponent: DualLike): Dual {
+    const b = Dual.lift(exponent);
+    const value = Math.pow(this.value, b.value);
+    // Constant exponent: d(a^b) = b a^(b-1) da (also valid for negative bases)
+    if (b.dx === 0 && b.dy === 0) {
+      return this.apply(value, b.value * Math.pow(this.value, b.value - 1));
+    }
+    // General case: d(a^b) = a^b (b' ln a + b a' / a)
+    const logA = Math.log(this.value);
+    return new Dual(
+      value,
+      value * (scale(b.dx, logA) + scale(this.dx, b.value / this.value)),
+      value * (scale(b.dy, logA) + scale(this.dy, b.value / this.value))
+    );
+  }
+
+  square(): Dual {
+    return this.mul(this);
+  }
+
+  exp(): Dual {
+    const value = Math.exp(this.value);
+    return this.apply(value, value);
+  }
+
+  log(): Dual {
+    return this.apply(Math.log(this.value), 1 / this.value);
+  }
+
+  sqrt(): Dual {
+    const value = Math.sqrt(this.value);
+    return this.apply(value, 0.5 / value);
+  }
+
+  abs(): Dual {
+    return this.apply(Math.abs(this.value), Math.sign(this.value));
+  }
+
+  sin(): Dual {
+    return this.apply(Math.sin(this.value), Math.cos(this.value));
+  }
+
+  cos(): Dual {
+    return this.apply(Math.cos(this.value), -Math.sin(this.value));
+  }
+
+  tan(): Dual {
+    const c = Math.cos(this.value);
+    return this.apply(Math.tan(this.value), 1 / (c * c));
+  }
+
+  sinh(): Dual {
+    return this.apply(Math.sinh(this.value), Math.cosh(this.value));
+  }
+
+  cosh(): Dual {
+    return this.apply(Math.cosh(this.value), Math.sinh(this.value));
+  }
+
+  tanh(): Dual {
+    const t = Math.tanh(this.value);
+    return this.apply(t, 1 - t * t);
+  }
+
+  atan(): Dual {
+    return this.apply(Math.atan(this.value), 1 / (1 + this.value * this.value));
+  }
+
+  static atan2(y: DualLike, x: DualLike): Dual {
+    const a = Dual.lift(y);
+    const b = Dual.lift(x);
+    const r2 = a.value * a.value + b.value * b.value;
+    return new Dual(
+      Math.atan2(a.value, b.value),
+      (scale(a.dx, b.value) - scale(b.dx, a.value)) / r2,
+      (scale(a.dy, b.value) - scale(b.dy, a.value)) / r2
+    );
+  }
+
+  static min(a: DualLike, b: DualLike): Dual {
+    const da = Dual.lift(a);
+    const db = Dual.lift(b);
+    return da.value <= db.value ? da : db;
+  }
+
+  static max(a: DualLike, b: DualLike): Dual {
+    const da = Dual.lift(a);
+    const db = Dual.lift(b);
+    return da.value >= db.value ? da : db;
+  }
+
+  // log(Σ exp(t_i)) without underflow, for log densities of mixtures
+  static logSumExp(terms: Dual[]): Dual {
+    const m = Math.max(...terms.map(t => t.value));
+    if (!isFinite(m)) return new Dual(m);
+    let sum = 0;
+    let dx = 0;
+    let dy = 0;
+    for (const t of terms) {
+      const w = Math.exp(t.value - m);
+      sum += w;
+      dx += scale(t.dx, w);
+      dy += scale(t.dy, w);
+    }
+    return new Dual(m + Math.log(sum), dx / sum, dy / sum);
+  }
+}
@@ -67,3 +67,10 @@ export const COLORMAPS: Record<ColorScheme, (t: number) => RGB> = {
 export function getColor(t: number, scheme: ColorScheme): RGB {
   return COLORMAPS[scheme](t);
 }
+
+// Categorical palette for independent chains (chain 0 keeps the walker green)
+export const CHAIN_COLORS = ['#4ade80', '#f472b6', '#60a5fa', '#facc15', '#a78bfa', '#fb923c', '#2dd4bf', '#f87171'];
+
+export function getChainColor(index: number): string {
+  return CHAIN_COLORS[index % CHAIN_COLORS.length];
+}
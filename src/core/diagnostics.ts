@@ -0,0 +1,173 @@
+// Convergence diagnostics for MCMC output
+
+function mean(values: number[]): number {
+  let sum = 0;
+  for (const v of values) sum += v;
+  return sum / values.length;
+}
+
+// Unbiased sample variance
+function variance(values: number[], mu: number = mean(values)): number {
+  let sum = 0;
+  for (const v of values) sum += (v - mu) * (v - mu);
+  return sum / (values.length - 1);
+}
+
+// Split-R̂ (Gelman et al., BDA3 §11.4): each chain is split in half so that
+// non-stationarity within a chain also inflates the statistic.
+// Values near 1 indicate the chains agree; > 1.01 suggests they have not mixed.
+// Returns NaN when there are too few draws to compute it.
+export function splitRHat(chains: number[][]): number {
+  const n = Math.floor(Math.min(...chains.map(c => c.length)) / 2);
+  if (chains.length === 0 || n < 2) return NaN;
+
+  // Split every chain into first and second halves of equal length
+  const halves: number[][] = [];
+  for (const chain of chains) {
+    halves.push(chain.slice(0, n));
+    halves.push(chain.slice(chain.length - n));
+  }
+
+  const means = halves.map(h => mean(h));
+  const grandMean = mean(means);
+
+  // Between-chain variance B and mean within-chain variance W
+  const B = n * variance(means, grandMean);
+  const W = mean(halves.map((h, i) => variance(h, means[i])));
+  if (W === 0) return B === 0 ? 1 : Infinity;
+
+  const varPlus = ((n - 1) / n) * W + B / n;
+  return Math.sqrt(varPlus / W);
+}
+
+// In-place iterative radix-2 FFT (length must be a power of two)
+function fft(re: Float64Array, im: Float64Array, inverse: boolean = false): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  // Butterflies
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[i + k];
+        const aIm = im[i + k];
+        const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+        const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+        re[i + k] = aRe + bRe;
+        im[i + k] = aIm + bIm;
+        re[i + k + len / 2] = aRe - bRe;
+        im[i + k + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
+
+// Normalized autocorrelation ρ_0..ρ_maxLag via FFT (Wiener-Khinchin), O(n log n).
+// The series is zero-padded to avoid circular wrap-around.
+export function autocorrelation(values: number[], maxLag: number = values.length - 1): Float64Array {
+  const n = values.length;
+  const lags = Math.max(0, Math.min(maxLag, n - 1));
+  const acf = new Float64Array(lags + 1);
+  if (n < 2) {
+    acf[0] = 1;
+    return acf;
+  }
+
+  let size = 1;
+  while (size < 2 * n) size <<= 1;
+
+  const mu = mean(values);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < n; i++) re[i] = values[i] - mu;
+
+  // Power spectrum, then inverse transform gives the autocovariance
+  fft(re, im);
+  for (let i = 0; i < size; i++) {
+    re[i] = re[i] * re[i] + im[i] * im[i];
+    im[i] = 0;
+  }
+  fft(re, im, true);
+
+  const variance0 = re[0];
+  if (variance0 <= 0) {
+    acf[0] = 1;
+    return acf;
+  }
+  for (let t = 0; t <= lags; t++) {
+    acf[t] = re[t] / variance0;
+  }
+  return acf;
+}
+
+// Effective sample size using Geyer's initial monotone sequence estimator:
+// sum autocorrelations in pairs Γ_k = ρ_2k + ρ_2k+1 while positive, forcing
+// the pairs to be non-increasing, then ESS = n / τ with τ = -1 + 2 Σ Γ_k.
+// A full-length ACF of the same values can be passed in to avoid recomputing it.
+// A chain that never moved carries no information about the target: ESS = 0.
+export function effectiveSampleSize(values: number[], acf: Float64Array = autocorrelation(values)): number {
+  const n = values.length;
+  if (n > 0 && values.every(v => v === values[0])) return 0;
+  if (n < 4 || acf.length < n) return n;
+  let tau = -1;
+  let previousPair = Infinity;
+  for (let k = 0; 2 * k + 1 < n; k++) {
+    let pair = acf[2 * k] + acf[2 * k + 1];
+    if (pair <= 0) break;
+    pair = Math.min(pair, previousPair);
+    tau += 2 * pair;
+    previousPair = pair;
+  }
+
+  // Guard against τ ≤ 0 from strongly antithetic chains (cap at n log10 n, as Stan does)
+  const ess = tau > 0 ? n / tau : n * Math.log10(n);
+  return Math.min(ess, n * Math.log10(n));
+}
+
+export interface ChainDiagnostics {
+  n: number;
+  acfX: Float64Array;  // ρ_0..ρ_maxLag of the x coordinate
+  acfY: Float64Array;
+  essX: number;
+  essY: number;
+}
+
+// ACF and ESS of both coordinates of a single chain
+export function computeChainDiagnostics(samples: Array<{ x: number; y: number }>, maxLag: number = 40): ChainDiagnostics {
+  const xs = samples.map(s => s.x);
+  const ys = samples.map(s => s.y);
+  const fullAcfX = autocorrelation(xs);
+  const fullAcfY = autocorrelation(ys);
+  return {
+    n: samples.length,
+    acfX: fullAcfX.slice(0, maxLag + 1),
+    acfY: fullAcfY.slice(0, maxLag + 1),
+    essX: effectiveSampleSize(xs, fullAcfX),
+    essY: effectiveSampleSize(ys, fullAcfY),
+  };
+}
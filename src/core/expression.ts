@@ -0,0 +1,309 @@
+import { Dual } from './autodiff';
+
+// Safe math expression parser for user-defined targets (no eval / Function).
+// Grammar (lowest to highest precedence):
+//   expr    := term (('+' | '-') term)*
+//   term    := unary (('*' | '/') unary)*
+//   unary   := ('-' | '+') unary | power
+//   power   := primary (('^' | '**') unary)?      right-associative, binds tighter than unary minus on its left
+//   primary := number | name | name '(' expr (',' expr)* ')' | '(' expr ')'
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'unary'; op: '-'; arg: ExpressionNode }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+// Parse errors carry the character offset so the UI can point at it
+export class ExpressionError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+export const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+interface FunctionDef {
+  arity: number;
+  fn: (...args: number[]) => number;
+  dual: (...args: Dual[]) => Dual;  // Same function on dual numbers, for exact gradients
+}
+
+// Supported functions and their number of arguments
+export const FUNCTIONS: Record<string, FunctionDef> = {
+  exp: { arity: 1, fn: Math.exp, dual: (a) => a.exp() },
+  log: { arity: 1, fn: Math.log, dual: (a) => a.log() },
+  sqrt: { arity: 1, fn: Math.sqrt, dual: (a) => a.sqrt() },
+  abs: { arity: 1, fn: Math.abs, dual: (a) => a.abs() },
+  sin: { arity: 1, fn: Math.sin, dual: (a) => a.sin() },
+  cos: { arity: 1, fn: Math.cos, dual: (a) => a.cos() },
+  tan: { arity: 1, fn: Math.tan, dual: (a) => a.tan() },
+  sinh: { arity: 1, fn: Math.sinh, dual: (a) => a.sinh() },
+  cosh: { arity: 1, fn: Math.cosh, dual: (a) => a.cosh() },
+  tanh: { arity: 1, fn: Math.tanh, dual: (a) => a.tanh() },
+  atan: { arity: 1, fn: Math.atan, dual: (a) => a.atan() },
+  atan2: { arity: 2, fn: Math.atan2, dual: (a, b) => Dual.atan2(a, b) },
+  pow: { arity: 2, fn: Math.pow, dual: (a, b) => a.pow(b) },
+  min: { arity: 2, fn: Math.min, dual: (a, b) => Dual.min(a, b) },
+  max: { arity: 2, fn: Math.max, dual: (a, b) => Dual.max(a, b) },
+};
+
+// Own keys only, so names like 'constructor' are not found on the prototype
+function hasOwn(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'name'; value: string; position: number }
+  | { kind: 'op'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (/[0-9.]/.test(c)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new ExpressionError(`Invalid number at position ${i + 1}`, i);
+      tokens.push({ kind: 'number', value: parseFloat(match[0]), position: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(c)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+      if (!match) throw new ExpressionError(`Invalid name at position ${i + 1}`, i);
+      tokens.push({ kind: 'name', value: match[0], position: i });
+      i += match[0].length;
+    } else if (source.startsWith('**', i)) {
+      tokens.push({ kind: 'op', value: '^', position: i });
+      i += 2;
+    } else if ('+-*/^(),'.includes(c)) {
+      tokens.push({ kind: 'op', value: c, position: i });
+      i++;
+    } else {
+      throw new ExpressionError(`Unexpected character '${c}' at position ${i + 1}`, i);
+    }
+  }
+  tokens.push({ kind: 'end', position: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private variables: string[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.expression();
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw new ExpressionError(`Unexpected '${this.describe(token)}' at position ${token.position + 1}`, token.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'op' && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.peek();
+    if (!this.isOp(value)) {
+      throw new ExpressionError(`Expected '${value}' at position ${token.position + 1}, found '${this.describe(token)}'`, token.position);
+    }
+    this.index++;
+  }
+
+  private describe(token: Token): string {
+    return token.kind === 'end' ? 'end of input' : String(token.value);
+  }
+
+  private expression(): ExpressionNode {
+    let node = this.term();
+    let token = this.peek();
+    while (token.kind === 'op' && (token.value === '+' || token.value === '-')) {
+      this.index++;
+      node = { type: 'binary', op: token.value, left: node, right: this.term() };
+      token = this.peek();
+    }
+    return node;
+  }
+
+  private term(): ExpressionNode {
+    let node = this.unary();
+    let token = this.peek();
+    while (token.kind === 'op' && (token.value === '*' || token.value === '/')) {
+      this.index++;
+      node = { type: 'binary', op: token.value, left: node, right: this.unary() };
+      token = this.peek();
+    }
+    return node;
+  }
+
+  // -x^2 parses as -(x^2), as in ordinary notation
+  private unary(): ExpressionNode {
+    if (this.isOp('-')) {
+      this.index++;
+      return { type: 'unary', op: '-', arg: this.unary() };
+    }
+    if (this.isOp('+')) {
+      this.index++;
+      return this.unary();
+    }
+    return this.power();
+  }
+
+  private power(): ExpressionNode {
+    const base = this.primary();
+    if (this.isOp('^')) {
+      this.index++;
+      return { type: 'binary', op: '^', left: base, right: this.unary() };
+    }
+    return base;
+  }
+
+  private primary(): ExpressionNode {
+    const token = this.peek();
+
+    if (token.kind === 'number') {
+      this.index++;
+      return { type: 'number', value: token.value };
+    }
+
+    if (token.kind === 'name') {
+      this.index++;
+      const name = token.value;
+      if (this.isOp('(')) {
+        const fn = hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+        if (!fn) throw new ExpressionError(`Unknown function '${name}' at position ${token.position + 1}`, token.position);
+        this.index++;
+        const args = [this.expression()];
+        while (this.isOp(',')) {
+          this.index++;
+          args.push(this.expression());
+        }
+        this.expect(')');
+        if (args.length !== fn.arity) {
+          throw new ExpressionError(
+            `${name}() takes ${fn.arity} argument${fn.arity === 1 ? '' : 's'}, got ${args.length}`,
+            token.position
+          );
+        }
+        return { type: 'call', name, args };
+      }
+      if (this.variables.includes(name)) return { type: 'variable', name };
+      if (hasOwn(CONSTANTS, name)) return { type: 'number', value: CONSTANTS[name] };
+      throw new ExpressionError(
+        `Unknown name '${name}' at position ${token.position + 1} (use ${this.variables.join(', ')})`,
+        token.position
+      );
+    }
+
+    if (this.isOp('(')) {
+      this.index++;
+      const node = this.expression();
+      this.expect(')');
+      return node;
+    }
+
+    throw new ExpressionError(
+      token.kind === 'end'
+        ? 'Unexpected end of expression'
+        : `Unexpected '${this.describe(token)}' at position ${token.position + 1}`,
+      token.position
+    );
+  }
+}
+
+export function parseExpression(source: string, variables: string[] = ['x', 'y']): ExpressionNode {
+  if (source.trim() === '') throw new ExpressionError('Expression is empty', 0);
+  return new Parser(tokenize(source), variables).parse();
+}
+
+// Compile the tree into nested closures (much faster than walking it per evaluation)
+export function compileExpression(node: ExpressionNode): (vars: Record<string, number>) => number {
+  switch (node.type) {
+    case 'number': {
+      const value = node.value;
+      return () => value;
+    }
+    case 'variable': {
+      const name = node.name;
+      return (vars) => vars[name];
+    }
+    case 'unary': {
+      const arg = compileExpression(node.arg);
+      return (vars) => -arg(vars);
+    }
+    case 'binary': {
+      const left = compileExpression(node.left);
+      const right = compileExpression(node.right);
+      switch (node.op) {
+        case '+': return (vars) => left(vars) + right(vars);
+        case '-': return (vars) => left(vars) - right(vars);
+        case '*': return (vars) => left(vars) * right(vars);
+        case '/': return (vars) => left(vars) / right(vars);
+        case '^': return (vars) => Math.pow(left(vars), right(vars));
+      }
+      break;
+    }
+    case 'call': {
+      const fn = FUNCTIONS[node.name].fn;
+      const args = node.args.map(compileExpression);
+      if (args.length === 1) {
+        const [a] = args;
+        return (vars) => fn(a(vars));
+      }
+      return (vars) => fn(...args.map(a => a(vars)));
+    }
+  }
+  throw new Error(`Unhandled expression node: ${(node as ExpressionNode).type}`);
+}
+
+// Compile the tree for dual-number evaluation (value plus exact gradient)
+export function compileDualExpression(node: ExpressionNode): (vars: Record<string, Dual>) => Dual {
+  switch (node.type) {
+    case 'number': {
+      const value = new Dual(node.value);
+      return () => value;
+    }
+    case 'variable': {
+      const name = node.name;
+      return (vars) => vars[name];
+    }
+    case 'unary': {
+      const arg = compileDualExpression(node.arg);
+      return (vars) => arg(vars).neg();
+    }
+    case 'binary': {
+      const left = compileDualExpression(node.left);
+      const right = compileDualExpression(node.right);
+      switch (node.op) {
+        case '+': return (vars) => left(vars).add(right(vars));
+        case '-': return (vars) => left(vars).sub(right(vars));
+        case '*': return (vars) => left(vars).mul(right(vars));
+        case '/': return (vars) => left(vars).div(right(vars));
+        case '^': return (vars) => left(vars).pow(right(vars));
+      }
+      break;
+    }
+    case 'call': {
+      const dual = FUNCTIONS[node.name].dual;
+      const args = node.args.map(compileDualExpression);
+      return (vars) => dual(...args.map(a => a(vars)));
+    }
+  }
+  throw new Error(`Unhandled expression node: ${(node as ExpressionNode).type}`);
+}
@@ -0,0 +1,113 @@
+// Headless runner: drives the same Simulation, algorithms and seeding as the app,
+// but without rendering, so runs can be scripted from Node (see scripts/headless.ts).
+import type { AlgorithmType } from '../algorithms';
+import { setParameter, type ParameterValue } from '../algorithms/MCMCAlgorithm';
+import { createDistribution, type DistributionType } from '../distributions';
+import { Simulation } from './Simulation';
+import { computeChainDiagnostics } from './diagnostics';
+import type { Vector2 } from './utils';
+
+export type { ParameterValue };
+
+export interface HeadlessOptions {
+  algorithm: AlgorithmType;
+  distribution: DistributionType;
+  iterations: number;
+  seed: number;
+  chains?: number;                              // Default 1
+  burnIn?: number;                              // Iterations dropped from the diagnostics (default 0)
+  start?: Vector2;                              // Start of chain 0; other chains start dispersed
+  params?: Record<string, ParameterValue>;      // Algorithm parameters, e.g. { epsilon: 0.2 }
+}
+
+export interface HeadlessChainSummary {
+  acceptanceRate: number | null;     // null for algorithms without a Metropolis step
+  divergences: number | null;        // Divergent transitions after warmup (null for samplers without them)
+  warmupDivergences: number | null;  // Divergent transitions during step size adaptation
+  samplingSeconds: number;           // Time inside this chain's steps, for ESS per second
+  mean: Vector2;
+  ess: Vector2;
+  acfX: number[];
+  acfY: number[];
+}
+
+export interface HeadlessResult {
+  algorithm: string;
+  distribution: string;
+  seed: number;
+  iterations: number;
+  burnIn: number;
+  params: Record<string, ParameterValue>;  // Overrides applied on top of the algorithm defaults
+  samplingSeconds: number;        // Time inside algorithm steps, summed over chains
+  rHat: Vector2 | null;           // Split-R̂ across chains (null for a single chain)
+  chains: HeadlessChainSummary[];
+  samples: Vector2[][];           // Full chain per run, including the start state and burn-in
+}
+
+export function runHeadless(options: HeadlessOptions): HeadlessResult {
+  const { iterations, seed, chains = 1, burnIn = 0, start, params = {} } = options;
+
+  const simulation = new Simulation();
+  simulation.seed = seed >>> 0;
+  simulation.numChains = Math.max(1, Math.round(chains));
+  simulation.visualizer.burnIn = burnIn;
+  simulation.visualizer.excludeBurnIn = true;
+  const distribution = createDistribution(options.distribution);
+  simulation.setDistribution(distribution);
+  const algorithm = simulation.setAlgorithm(options.algorithm);
+
+  // Parameters are applied after initialize(), which restores the defaults
+  for (const [key, value] of Object.entries(params)) {
+    setParameter(algorithm, key, value);
+    simulation.setChainParameter(key, value);
+  }
+  if (start) {
+    simulation.setStartPosition(start);
+  }
+
+  for (let i = 0; i < iterations; i++) {
+    simulation.step('headless');
+  }
+
+  const samples = simulation.chains.map(c => c.algorithm.getChain().slice());
+  const summaries = simulation.chains.map((chain, c): HeadlessChainSummary => {
+    const kept = samples[c].length > burnIn ? samples[c].slice(burnIn) : samples[c];
+    const diagnostics = computeChainDiagnostics(kept);
+    const mean = kept.reduce((acc, s) => ({ x: acc.x + s.x, y: acc.y + s.y }), { x: 0, y: 0 });
+    return {
+      acceptanceRate: chain.algorithm.getAcceptanceRate ? chain.algorithm.getAcceptanceRate() : null,
+      divergences: chain.algorithm.getDivergenceCount ? chain.algorithm.getDivergenceCount() : null,
+      warmupDivergences: chain.algorithm.getWarmupDivergenceCount ? chain.algorithm.getWarmupDivergenceCount() : null,
+      mean: { x: mean.x / kept.length, y: mean.y / kept.length },
+      ess: { x: diagnostics.essX, y: diagnostics.essY },
+      acfX: Array.from(diagnostics.acfX),
+      acfY: Array.from(diagnostics.acfY),
+      samplingSeconds: chain.samplingTime / 1000,
+    };
+  });
+
+  return {
+    algorithm: algorithm.name,
+    distribution: distribution.name,
+    seed: simulation.seed,
+    iterations,
+    burnIn,
+    params,
+    samplingSeconds: simulation.chains.reduce((sum, c) => sum + c.samplingTime, 0) / 1000,
+    rHat: simulation.computeRHat(),
+    chains: summaries,
+    samples,
+  };
+}
+
+// One row per chain state: chain,iteration,x,y (iteration 0 is the start state)
+export function resultToCSV(result: HeadlessResult): string {
+  const rows = result.samples.flatMap((chain, c) => chain.map((s, i) => `${c},${i},${s.x},${s.y}`));
+  return ['chain,iteration,x,y', ...rows].join('\n') + '\n';
+}
+
+// Run metadata and diagnostics; samples are left to the CSV unless requested
+export function resultToJSON(result: HeadlessResult, includeSamples: boolean = false): string {
+  const { samples, ...summary } = result;
+  return JSON.stringify(includeSamples ? result : summary, null, 2) + '\n';
+}
@@ -0,0 +1,107 @@
+// Seedable pseudo-random number generator (xoshiro128**)
+// A run is exactly reproducible from its seed: Simulation owns the seed and hands
+// each chain its own stream, and algorithms draw only from the stream they are given.
+
+// SplitMix32: expands a single seed into well-mixed state words
+function splitMix32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x9e3779b9) >>> 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    return (z ^ (z >>> 16)) >>> 0;
+  };
+}
+
+export class Random {
+  readonly seed: number;
+  private s0: number;
+  private s1: number;
+  private s2: number;
+  private s3: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    const mix = splitMix32(this.seed);
+    this.s0 = mix();
+    this.s1 = mix();
+    this.s2 = mix();
+    this.s3 = mix();
+  }
+
+  // Next raw 32-bit output
+  private nextUint32(): number {
+    const result = Math.imul(rotl(Math.imul(this.s1, 5), 7), 9) >>> 0;
+    const t = this.s1 << 9;
+
+    this.s2 ^= this.s0;
+    this.s3 ^= this.s1;
+    this.s1 ^= this.s2;
+    this.s0 ^= this.s3;
+    this.s2 ^= t;
+    this.s3 = rotl(this.s3, 11);
+
+    return result;
+  }
+
+  // New stream seeded from this one's next output; successive calls give unrelated
+  // streams, unlike seeds that differ by a constant
+  split(): Random {
+    return new Random(this.nextUint32());
+  }
+
+  // Uniform on [0, 1)
+  uniform(): number {
+    return this.nextUint32() / 4294967296;
+  }
+
+  // Uniform integer in [0, n)
+  int(n: number): number {
+    return Math.floor(this.uniform() * n);
+  }
+
+  // Box-Muller transform for generating normal random variables
+  normal(): number {
+    const u1 = 1 - this.uniform(); // (0, 1] so the log is finite
+    const u2 = this.uniform();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  // Exponential(1) by inversion
+  exponential(): number {
+    return -Math.log(1 - this.uniform());
+  }
+
+  // Marsaglia-Tsang method for Gamma(shape, 1) random variables
+  gamma(shape: number): number {
+    if (shape < 1) {
+      // Boost shape and correct with U^(1/shape)
+      return this.gamma(shape + 1) * Math.pow(1 - this.uniform(), 1 / shape);
+    }
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    for (;;) {
+      let x: number;
+      let v: number;
+      do {
+        x = this.normal();
+        v = 1 + c * x;
+      } while (v <= 0);
+      v = v * v * v;
+      const u = 1 - this.uniform();
+      if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+        return d * v;
+      }
+    }
+  }
+}
+
+function rotl(x: number, k: number): number {
+  return ((x << k) | (x >>> (32 - k))) >>> 0;
+}
+
+// Fresh 32-bit seed for runs that don't specify one
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -1,31 +1,24 @@
 // Utility functions for MCMC algorithms
+import type { Random } from './random';
 
 export interface Vector2 {
   x: number;
   y: number;
 }
 
-// Box-Muller transform for generating normal random variables
-export function randn(): number {
-  const u1 = Math.random();
-  const u2 = Math.random();
-  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+// Symmetric 2×2 matrix [xx xy; xy yy], e.g. a covariance
+export interface Matrix2 {
+  xx: number;
+  xy: number;
+  yy: number;
 }
 
-// Generate 2D normal random vector
-export function randn2d(): Vector2 {
-  return {
-    x: randn(),
-    y: randn()
-  };
-}
-
-// Multivariate normal with mean and covariance
-export function mvnRandom(mean: Vector2, sigma: number): Vector2 {
-  return {
-    x: mean.x + randn() * sigma,
-    y: mean.y + randn() * sigma
-  };
+// Lower Cholesky factor L of a positive definite matrix (M = L Lᵀ)
+export function cholesky2(m: Matrix2): { l11: number; l21: number; l22: number } {
+  const l11 = Math.sqrt(m.xx);
+  const l21 = m.xy / l11;
+  const l22 = Math.sqrt(m.yy - l21 * l21);
+  return { l11, l21, l22 };
 }
 
 // 2D Gaussian PDF (unnormalized is fine for MCMC)
@@ -41,6 +34,77 @@ export function gaussian2d(
   return Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma));
 }
 
+// Normalize log weights to probabilities (log-sum-exp for numerical stability)
+export function normalizeLogWeights(logWeights: number[]): number[] {
+  const maxLogW = Math.max(...logWeights);
+  if (!isFinite(maxLogW)) return logWeights.map(() => 1 / logWeights.length);
+  const weights = logWeights.map(lw => Math.exp(lw - maxLogW));
+  const total = weights.reduce((a, b) => a + b, 0);
+  return weights.map(w => w / total);
+}
+
+// log Σ exp(values), without overflow
+export function logSumExp(values: number[]): number {
+  const max = Math.max(...values);
+  if (!isFinite(max)) return max;
+  return max + Math.log(values.reduce((sum, v) => sum + Math.exp(v - max), 0));
+}
+
+// Kish effective sample size of normalized weights: 1 / Σ w²
+export function weightsESS(weights: number[]): number {
+  let sumSq = 0;
+  for (const w of weights) sumSq += w * w;
+  return sumSq > 0 ? 1 / sumSq : 0;
+}
+
+// Draw an index with probability proportional to the given normalized weights
+export function sampleIndex(weights: number[], rng: Random): number {
+  const u = rng.uniform();
+  let cumsum = 0;
+  for (let i = 0; i < weights.length; i++) {
+    cumsum += weights[i];
+    if (u < cumsum) return i;
+  }
+  return weights.length - 1;
+}
+
+// Systematic resampling: n indices drawn with one uniform offset and evenly spaced
+// strata, so each index appears ⌊n w⌋ or ⌈n w⌉ times (lower variance than multinomial)
+export function systematicResample(weights: number[], n: number, rng: Random): number[] {
+  const indices: number[] = [];
+  const u = rng.uniform();
+  let cumsum = weights[0];
+  let i = 0;
+  for (let k = 0; k < n; k++) {
+    const target = (k + u) / n;
+    while (target > cumsum && i < weights.length - 1) {
+      i++;
+      cumsum += weights[i];
+    }
+    indices.push(i);
+  }
+  return indices;
+}
+
+// log Γ(x) for x > 0 (Lanczos approximation, g = 7)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+  9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+export function logGamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection formula: Γ(x) Γ(1 - x) = π / sin(πx)
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
 // Vector operations
 export function vectorLength(v: Vector2): number {
   return Math.sqrt(v.x * v.x + v.y * v.y);
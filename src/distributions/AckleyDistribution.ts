@@ -1,7 +1,7 @@
-import { Distribution } from './Distribution';
-import type { Vector2 } from '../core/utils';
+import { DifferentiableDistribution } from './DifferentiableDistribution';
+import type { Dual } from '../core/autodiff';
 
-export class AckleyDistribution extends Distribution {
+export class AckleyDistribution extends DifferentiableDistribution {
   name = 'Ackley';
   bounds = {
     xMin: -5,
@@ -23,15 +23,14 @@ export class AckleyDistribution extends Distribution {
     this.scale = scale;
   }
 
-  density(point: Vector2): number {
-    const { x, y } = point;
+  logDensityDual(x: Dual, y: Dual): Dual {
     // Ackley function: f(x,y) = -a·exp(-b·√(½(x²+y²))) - exp(½(cos(cx)+cos(cy))) + a + e
     // Global minimum at (0, 0) with f(0,0) = 0
-    const sumSq = x * x + y * y;
-    const sumCos = Math.cos(this.c * x) + Math.cos(this.c * y);
-    const f = -this.a * Math.exp(-this.b * Math.sqrt(0.5 * sumSq))
-              - Math.exp(0.5 * sumCos)
-              + this.a + Math.E;
-    return Math.exp(-this.scale * f);
+    const sumSq = x.square().add(y.square());
+    const sumCos = x.mul(this.c).cos().add(y.mul(this.c).cos());
+    const f = sumSq.mul(0.5).sqrt().mul(-this.b).exp().mul(-this.a)
+      .sub(sumCos.mul(0.5).exp())
+      .add(this.a + Math.E);
+    return f.mul(-this.scale);
   }
 }
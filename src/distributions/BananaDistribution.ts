@@ -1,7 +1,7 @@
-import { Distribution } from './Distribution';
-import type { Vector2 } from '../core/utils';
+import { DifferentiableDistribution } from './DifferentiableDistribution';
+import type { Dual } from '../core/autodiff';
 
-export class BananaDistribution extends Distribution {
+export class BananaDistribution extends DifferentiableDistribution {
   name = 'Banana';
   bounds = {
     xMin: -3,
@@ -19,12 +19,11 @@ export class BananaDistribution extends Distribution {
     this.b = b;
   }
 
-  density(point: Vector2): number {
-    const { x, y } = point;
+  logDensityDual(x: Dual, y: Dual): Dual {
     // Banana-shaped distribution (transformed Gaussian)
     // Similar to Rosenbrock function
-    const term1 = (this.a - x) ** 2;
-    const term2 = this.b * (y - x * x) ** 2;
-    return Math.exp(-(term1 + term2) / 2);
+    const term1 = x.neg().add(this.a).square();
+    const term2 = y.sub(x.square()).square().mul(this.b);
+    return term1.add(term2).mul(-0.5);
   }
 }
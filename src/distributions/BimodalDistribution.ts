@@ -1,7 +1,7 @@
-import { Distribution } from './Distribution';
-import type { Vector2 } from '../core/utils';
+import { DifferentiableDistribution } from './DifferentiableDistribution';
+import { Dual } from '../core/autodiff';
 
-export class BimodalDistribution extends Distribution {
+export class BimodalDistribution extends DifferentiableDistribution {
   name = 'Bimodal';
   bounds = {
     xMin: -5,
@@ -19,14 +19,13 @@ export class BimodalDistribution extends Distribution {
     this.sigma = sigma;
   }
 
-  density(point: Vector2): number {
-    const { x, y } = point;
+  logDensityDual(x: Dual, y: Dual): Dual {
     const s2 = this.sigma * this.sigma;
 
-    // Two Gaussian peaks
-    const peak1 = Math.exp(-((x + this.separation/2) ** 2 + y ** 2) / (2 * s2));
-    const peak2 = Math.exp(-((x - this.separation/2) ** 2 + y ** 2) / (2 * s2));
+    // Two Gaussian peaks, combined in log space so the tails don't underflow
+    const peak1 = x.add(this.separation / 2).square().add(y.square()).div(-2 * s2);
+    const peak2 = x.sub(this.separation / 2).square().add(y.square()).div(-2 * s2);
 
-    return peak1 + peak2;
+    return Dual.logSumExp([peak1, peak2]);
   }
 }
@@ -0,0 +1,56 @@
+import { Distribution } from './Distribution';
+import type { Vector2 } from '../core/utils';
+
+// Zero-mean Gaussian with unit variances and correlation ρ. As |ρ| → 1 the
+// mass collapses onto a narrow diagonal ridge: coordinate-wise samplers crawl
+// and a step size tuned for the long axis overshoots the short one.
+export class CorrelatedGaussian extends Distribution {
+  name = 'Correlated Gaussian';
+  bounds = {
+    xMin: -4,
+    xMax: 4,
+    yMin: -4,
+    yMax: 4
+  };
+
+  rho: number;
+
+  constructor(rho: number = 0.95) {
+    super();
+    this.rho = rho;
+  }
+
+  density(point: Vector2): number {
+    return Math.exp(this.logDensity(point));
+  }
+
+  logDensity(point: Vector2): number {
+    const { x, y } = point;
+    const rho = this.rho;
+    return -(x * x - 2 * rho * x * y + y * y) / (2 * (1 - rho * rho));
+  }
+
+  // ∇log p = -Σ⁻¹ (x, y) with Σ⁻¹ = [[1, -ρ], [-ρ, 1]] / (1 - ρ²)
+  gradient(point: Vector2): Vector2 {
+    const { x, y } = point;
+    const rho = this.rho;
+    const c = 1 / (1 - rho * rho);
+    return {
+      x: -c * (x - rho * y),
+      y: -c * (y - rho * x)
+    };
+  }
+
+  mean(): Vector2 {
+    return { x: 0, y: 0 };
+  }
+
+  // Both marginals are standard normal whatever the correlation
+  marginalX(x: number): number {
+    return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+  }
+
+  marginalY(y: number): number {
+    return Math.exp(-0.5 * y * y) / Math.sqrt(2 * Math.PI);
+  }
+}
@@ -0,0 +1,89 @@
+import type { Bounds } from './Distribution';
+import { DifferentiableDistribution } from './DifferentiableDistribution';
+import type { Vector2 } from '../core/utils';
+import type { Dual } from '../core/autodiff';
+import { parseExpression, compileExpression, compileDualExpression, ExpressionError } from '../core/expression';
+
+// 'log': the expression is an unnormalized log density; 'density': an unnormalized density
+export type ExpressionMode = 'log' | 'density';
+
+export const DEFAULT_CUSTOM_EXPRESSION = '-(x^2/4 + (y - x^2)^2)';
+
+// Target defined by a typed expression in x and y, with exact gradients via autodiff.
+// The constructor throws an ExpressionError for invalid expressions, so callers can
+// report it and keep the previous target.
+export class CustomDistribution extends DifferentiableDistribution {
+  name = 'Custom';
+  bounds: Bounds;
+
+  readonly expression: string;
+  readonly mode: ExpressionMode;
+  private evaluate: (vars: Record<string, number>) => number;
+  private evaluateDual: (vars: Record<string, Dual>) => Dual;
+  // Max of the log density over a grid; subtracted so exp() stays in range
+  private logOffset: number = 0;
+
+  constructor(
+    expression: string = DEFAULT_CUSTOM_EXPRESSION,
+    mode: ExpressionMode = 'log',
+    bounds: Bounds = { xMin: -4, xMax: 4, yMin: -3, yMax: 6 }
+  ) {
+    super();
+    if (!(bounds.xMin < bounds.xMax && bounds.yMin < bounds.yMax)) {
+      throw new ExpressionError('Bounds must satisfy min < max', 0);
+    }
+    this.expression = expression;
+    this.mode = mode;
+    this.bounds = { ...bounds };
+    const tree = parseExpression(expression);
+    this.evaluate = compileExpression(tree);
+    this.evaluateDual = compileDualExpression(tree);
+
+    // Scan the bounds so a target that is undefined everywhere fails here, not in the scene
+    const steps = 50;
+    let maxLog = -Infinity;
+    for (let i = 0; i <= steps; i++) {
+      const x = bounds.xMin + (i / steps) * (bounds.xMax - bounds.xMin);
+      for (let j = 0; j <= steps; j++) {
+        const y = bounds.yMin + (j / steps) * (bounds.yMax - bounds.yMin);
+        const value = this.rawLogDensity(x, y);
+        if (value > maxLog) maxLog = value;
+      }
+    }
+    if (!isFinite(maxLog)) {
+      throw new ExpressionError(
+        mode === 'log'
+          ? 'Log density is not finite anywhere within the bounds'
+          : 'Density is not positive anywhere within the bounds',
+        0
+      );
+    }
+    this.logOffset = maxLog;
+  }
+
+  // Unshifted log density; -Infinity where the expression is undefined or non-positive
+  private rawLogDensity(x: number, y: number): number {
+    const value = this.evaluate({ x, y });
+    const logValue = this.mode === 'log' ? value : value > 0 ? Math.log(value) : -Infinity;
+    return Number.isNaN(logValue) || logValue === Infinity ? -Infinity : logValue;
+  }
+
+  density(point: Vector2): number {
+    return Math.exp(this.rawLogDensity(point.x, point.y) - this.logOffset);
+  }
+
+  logDensity(point: Vector2): number {
+    return this.rawLogDensity(point.x, point.y) - this.logOffset;
+  }
+
+  logDensityDual(x: Dual, y: Dual): Dual {
+    const value = this.evaluateDual({ x, y });
+    return (this.mode === 'log' ? value : value.log()).sub(this.logOffset);
+  }
+
+  // Outside the support the gradient is undefined; report no drift there
+  gradient(point: Vector2): Vector2 {
+    const grad = super.gradient(point);
+    return isFinite(grad.x) && isFinite(grad.y) ? grad : { x: 0, y: 0 };
+  }
+}
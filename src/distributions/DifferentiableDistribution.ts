@@ -0,0 +1,25 @@
+import { Distribution } from './Distribution';
+import type { Vector2 } from '../core/utils';
+import { Dual } from '../core/autodiff';
+
+// Distribution whose log density is written once with dual numbers.
+// density, logDensity and an exact gradient (used by HMC, NUTS and MALA) all
+// come from logDensityDual, so no finite differences are involved.
+export abstract class DifferentiableDistribution extends Distribution {
+  // Unnormalized log density
+  abstract logDensityDual(x: Dual, y: Dual): Dual;
+
+  density(point: Vector2): number {
+    return Math.exp(this.logDensity(point));
+  }
+
+  logDensity(point: Vector2): number {
+    return this.logDensityDual(new Dual(point.x), new Dual(point.y)).value;
+  }
+
+  gradient(point: Vector2): Vector2 {
+    const { x, y } = Dual.variables(point.x, point.y);
+    const result = this.logDensityDual(x, y);
+    return { x: result.dx, y: result.dy };
+  }
+}
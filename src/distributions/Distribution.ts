@@ -10,6 +10,8 @@ export interface Bounds {
 export abstract class Distribution {
   abstract name: string;
   abstract bounds: Bounds;
+  // Axis names shown by the panels and the scene (parameter names for posteriors)
+  labels = { x: 'X', y: 'Y' };
 
   // Probability density function
   abstract density(point: Vector2): number;
@@ -19,8 +21,9 @@ export abstract class Distribution {
     return Math.log(this.density(point) + 1e-300); // Add small constant to avoid log(0)
   }
 
-  // Gradient of log density (for HMC)
-  // Default: finite differences (can be overridden for analytical gradients)
+  // Gradient of log density (for HMC, NUTS and MALA)
+  // Default: finite differences (overridden by analytical gradients, or exactly via
+  // autodiff in DifferentiableDistribution)
   gradient(point: Vector2, h: number = 0.001): Vector2 {
     const logDensityX1 = this.logDensity({ x: point.x + h, y: point.y });
     const logDensityX2 = this.logDensity({ x: point.x - h, y: point.y });
@@ -33,6 +36,29 @@ export abstract class Distribution {
     };
   }
 
+  // Mean of the (normalized) distribution within its bounds
+  // Default: numerical integration on a grid (can be overridden for analytical forms)
+  mean(steps: number = 100): Vector2 {
+    const { xMin, xMax, yMin, yMax } = this.bounds;
+    const dx = (xMax - xMin) / steps;
+    const dy = (yMax - yMin) / steps;
+    let total = 0;
+    let sumX = 0;
+    let sumY = 0;
+    for (let i = 0; i < steps; i++) {
+      const x = xMin + (i + 0.5) * dx;
+      for (let j = 0; j < steps; j++) {
+        const y = yMin + (j + 0.5) * dy;
+        const d = this.density({ x, y });
+        total += d;
+        sumX += d * x;
+        sumY += d * y;
+      }
+    }
+    if (total === 0) return { x: 0, y: 0 };
+    return { x: sumX / total, y: sumY / total };
+  }
+
   // Marginal PDF for X (integrate out Y)
   // Default: numerical integration (can be overridden for analytical forms)
   marginalX(x: number, steps: number = 100): number {
@@ -0,0 +1,72 @@
+import { Distribution } from './Distribution';
+import type { Vector2 } from '../core/utils';
+
+// Rubin's eight schools: estimated SAT coaching effects and their standard errors
+export const EIGHT_SCHOOLS_EFFECTS = [28, 8, -3, 7, -1, 1, 18, 12];
+export const EIGHT_SCHOOLS_ERRORS = [15, 10, 16, 11, 9, 11, 10, 18];
+
+// Two-dimensional slice of the centered eight-schools model
+//   θ_j ~ N(μ, τ²),  y_j ~ N(θ_j, σ_j²),  τ ~ HalfCauchy(0, 5)
+// with μ fixed at roughly its posterior mean. x is the first school's effect θ₁ and
+// y is log τ; the other θ_j are integrated out (y_j ~ N(μ, σ_j² + τ²)).
+// As τ shrinks θ₁ is pinned to μ, giving the funnel behind the divergences HMC
+// reports for this model.
+export class EightSchoolsDistribution extends Distribution {
+  name = 'Eight Schools';
+  bounds = {
+    xMin: -12,
+    xMax: 28,
+    yMin: -4,
+    yMax: 4
+  };
+
+  mu: number;
+  private school: number;
+
+  constructor(mu: number = 4.4, school: number = 0) {
+    super();
+    this.mu = mu;
+    this.school = school;
+  }
+
+  density(point: Vector2): number {
+    return Math.exp(this.logDensity(point));
+  }
+
+  // Density over (θ₁, log τ): the Jacobian τ of the log transform cancels the
+  // 1/τ normalizer of N(θ₁ | μ, τ²)
+  logDensity(point: Vector2): number {
+    const { x: theta, y: logTau } = point;
+    const tau2 = Math.exp(2 * logTau);
+    const yj = EIGHT_SCHOOLS_EFFECTS[this.school];
+    const sj = EIGHT_SCHOOLS_ERRORS[this.school];
+
+    let logP = -Math.log(1 + tau2 / 25);  // Half-Cauchy(0, 5) prior on τ
+    logP -= (theta - this.mu) ** 2 / (2 * tau2);
+    logP -= (yj - theta) ** 2 / (2 * sj * sj);
+    EIGHT_SCHOOLS_EFFECTS.forEach((y, j) => {
+      if (j === this.school) return;
+      const v = EIGHT_SCHOOLS_ERRORS[j] ** 2 + tau2;
+      logP -= 0.5 * Math.log(v) + (y - this.mu) ** 2 / (2 * v);
+    });
+    return logP;
+  }
+
+  gradient(point: Vector2): Vector2 {
+    const { x: theta, y: logTau } = point;
+    const tau2 = Math.exp(2 * logTau);
+    const yj = EIGHT_SCHOOLS_EFFECTS[this.school];
+    const sj = EIGHT_SCHOOLS_ERRORS[this.school];
+    const d = theta - this.mu;
+
+    const gx = -d / tau2 + (yj - theta) / (sj * sj);
+    // d/dlogτ of each term, using dτ²/dlogτ = 2τ²
+    let gy = -2 * tau2 / (25 + tau2) + (d * d) / tau2;
+    EIGHT_SCHOOLS_EFFECTS.forEach((y, j) => {
+      if (j === this.school) return;
+      const v = EIGHT_SCHOOLS_ERRORS[j] ** 2 + tau2;
+      gy += -tau2 / v + ((y - this.mu) ** 2 * tau2) / (v * v);
+    });
+    return { x: gx, y: gy };
+  }
+}
@@ -0,0 +1,54 @@
+import { Distribution } from './Distribution';
+import type { Vector2 } from '../core/utils';
+
+// Neal's funnel: y ~ N(0, σ²) is a log-scale and x | y ~ N(0, e^y).
+// The neck (y ≪ 0) needs tiny steps while the mouth needs large ones, so a
+// single HMC/NUTS step size diverges in the neck.
+export class FunnelDistribution extends Distribution {
+  name = "Neal's Funnel";
+  bounds = {
+    xMin: -8,
+    xMax: 8,
+    yMin: -7,
+    yMax: 5
+  };
+
+  scale: number;  // σ, standard deviation of the log-scale y
+
+  constructor(scale: number = 3) {
+    super();
+    this.scale = scale;
+  }
+
+  density(point: Vector2): number {
+    return Math.exp(this.logDensity(point));
+  }
+
+  logDensity(point: Vector2): number {
+    const { x, y } = point;
+    const s2 = this.scale * this.scale;
+    // log N(y | 0, σ²) + log N(x | 0, e^y), dropping constants
+    return -(y * y) / (2 * s2) - 0.5 * y - 0.5 * x * x * Math.exp(-y);
+  }
+
+  gradient(point: Vector2): Vector2 {
+    const { x, y } = point;
+    const s2 = this.scale * this.scale;
+    const precision = Math.exp(-y);
+    return {
+      x: -x * precision,
+      y: -y / s2 - 0.5 + 0.5 * x * x * precision
+    };
+  }
+
+  mean(): Vector2 {
+    return { x: 0, y: 0 };
+  }
+
+  // The log-scale marginal is exactly N(0, σ²); x's marginal (a scale mixture
+  // of normals) has no closed form and keeps the numerical default
+  marginalY(y: number): number {
+    const s = this.scale;
+    return Math.exp(-(y * y) / (2 * s * s)) / (s * Math.sqrt(2 * Math.PI));
+  }
+}
@@ -0,0 +1,51 @@
+import { DifferentiableDistribution } from './DifferentiableDistribution';
+import type { GaussianPriorTarget } from './GaussianPrior';
+import type { Matrix2, Vector2 } from '../core/utils';
+import { Dual } from '../core/autodiff';
+
+// Observations per input: three positive labels at x₁, three negative at x₂
+const LABEL_COUNT = 3;
+
+// Latent values f = (f(x₁), f(x₂)) of a Gaussian process classifier at two nearby
+// inputs. The GP prior is f ~ N(0, s² [[1, ρ], [ρ, 1]]) with ρ set by the kernel,
+// and each label has a logistic likelihood σ(±f). The labels pull the two values
+// apart against the prior correlation, bending the posterior into a skewed ridge.
+export class GPClassificationDistribution extends DifferentiableDistribution implements GaussianPriorTarget {
+  name = 'GP Classification';
+  labels = { x: 'f(x₁)', y: 'f(x₂)' };
+  bounds = {
+    xMin: -6,
+    xMax: 6,
+    yMin: -6,
+    yMax: 6
+  };
+
+  rho: number;  // Prior correlation of the latent values
+  readonly amplitude = 2;
+  readonly priorMean = { x: 0, y: 0 };
+  readonly priorCovariance: Matrix2;
+
+  constructor(rho: number = 0.9) {
+    super();
+    this.rho = rho;
+    const s2 = this.amplitude * this.amplitude;
+    this.priorCovariance = { xx: s2, xy: rho * s2, yy: s2 };
+  }
+
+  // Σ log σ(y f) = -Σ log(1 + e^(-y f)), as stable log-sum-exps
+  logLikelihoodDual(f1: Dual, f2: Dual): Dual {
+    const zero = new Dual(0);
+    return Dual.logSumExp([zero, f1.neg()]).add(Dual.logSumExp([zero, f2])).mul(-LABEL_COUNT);
+  }
+
+  logLikelihood(point: Vector2): number {
+    return this.logLikelihoodDual(new Dual(point.x), new Dual(point.y)).value;
+  }
+
+  logDensityDual(f1: Dual, f2: Dual): Dual {
+    const rho = this.rho;
+    const s2 = this.amplitude * this.amplitude;
+    const quadratic = f1.square().sub(f1.mul(f2).mul(2 * rho)).add(f2.square());
+    return this.logLikelihoodDual(f1, f2).add(quadratic.div(-2 * s2 * (1 - rho * rho)));
+  }
+}
@@ -0,0 +1,25 @@
+import type { Distribution } from './Distribution';
+import { cholesky2, type Matrix2, type Vector2 } from '../core/utils';
+
+// Target factored as a Gaussian prior times a likelihood, p(x) ∝ N(x | μ, Σ) L(x), as
+// elliptical slice sampling needs. logDensity must equal log N(x | μ, Σ) + logLikelihood(x)
+// up to a constant.
+export interface GaussianPriorTarget {
+  priorMean: Vector2;
+  priorCovariance: Matrix2;
+  logLikelihood(point: Vector2): number;
+}
+
+export function hasGaussianPrior(distribution: Distribution): distribution is Distribution & GaussianPriorTarget {
+  const target = distribution as Partial<GaussianPriorTarget>;
+  return target.priorMean !== undefined && target.priorCovariance !== undefined && typeof target.logLikelihood === 'function';
+}
+
+// log N(point | mean, covariance), dropping the constant -log 2π
+export function logGaussian(point: Vector2, mean: Vector2, covariance: Matrix2): number {
+  const { l11, l21, l22 } = cholesky2(covariance);
+  // Whiten with L⁻¹ by forward substitution
+  const u = (point.x - mean.x) / l11;
+  const v = (point.y - mean.y - l21 * u) / l22;
+  return -0.5 * (u * u + v * v) - Math.log(l11 * l22);
+}
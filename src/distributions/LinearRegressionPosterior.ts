@@ -0,0 +1,56 @@
+import { PosteriorDistribution } from './PosteriorDistribution';
+import { ANSCOMBE_CSV, DatasetError, parseCSV, columnMean, columnSD } from './datasets';
+import { Dual } from '../core/autodiff';
+import type { GaussianPriorTarget } from './GaussianPrior';
+
+// Posterior of simple linear regression y ~ N(α + β z, σ²), where z is the predictor
+// standardized to mean 0 and SD 1 (so α is the mean outcome and β the change per SD
+// of x). σ is fixed at the least-squares residual SD; α, β ~ N(0, 100²).
+export class LinearRegressionPosterior extends PosteriorDistribution implements GaussianPriorTarget {
+  name = 'Linear Regression';
+  labels = { x: 'Intercept α', y: 'Slope β' };
+  readonly format = 'x, y';
+  readonly priorMean = { x: 0, y: 0 };
+  readonly priorCovariance = { xx: 100 * 100, xy: 0, yy: 100 * 100 };
+
+  private z: number[];
+  private y: number[];
+  private sigma: number;
+
+  constructor(csv: string = ANSCOMBE_CSV) {
+    super(csv);
+    const { rows } = parseCSV(csv, 2);
+    if (rows.length < 3) throw new DatasetError('Need at least 3 rows');
+    const x = rows.map(r => r[0]);
+    const meanX = columnMean(x);
+    const sdX = columnSD(x);
+    if (!(sdX > 0)) throw new DatasetError('The x column is constant');
+    this.z = x.map(v => (v - meanX) / sdX);
+    this.y = rows.map(r => r[1]);
+
+    // Least-squares fit (z has mean 0 and Σz² = n - 1)
+    const alpha = columnMean(this.y);
+    const beta = this.z.reduce((sum, z, i) => sum + z * this.y[i], 0) / (rows.length - 1);
+    const ss = this.y.reduce((sum, y, i) => sum + (y - alpha - beta * this.z[i]) ** 2, 0);
+    this.sigma = Math.sqrt(ss / (rows.length - 2));
+    if (!(this.sigma > 0)) throw new DatasetError('The points lie exactly on a line');
+
+    this.fit({ x: alpha, y: beta });
+  }
+
+  logLikelihoodDual(alpha: Dual, beta: Dual): Dual {
+    let sum = new Dual(0);
+    this.z.forEach((z, i) => {
+      sum = sum.add(alpha.add(beta.mul(z)).sub(this.y[i]).square());
+    });
+    return sum.div(-2 * this.sigma * this.sigma);
+  }
+
+  logPriorDual(alpha: Dual, beta: Dual): Dual {
+    return alpha.square().add(beta.square()).div(-2 * 100 * 100);
+  }
+
+  withData(csv: string): LinearRegressionPosterior {
+    return new LinearRegressionPosterior(csv);
+  }
+}
@@ -0,0 +1,52 @@
+import { PosteriorDistribution } from './PosteriorDistribution';
+import { CHALLENGER_CSV, DatasetError, parseCSV, columnMean, columnSD } from './datasets';
+import { Dual } from '../core/autodiff';
+import type { GaussianPriorTarget } from './GaussianPrior';
+
+// Posterior of logistic regression P(y = 1) = 1 / (1 + e^-(α + β z)), with z the
+// predictor standardized to mean 0 and SD 1 and weakly informative priors
+// α, β ~ N(0, 2.5²), which also keep the mode finite for separable data.
+export class LogisticRegressionPosterior extends PosteriorDistribution implements GaussianPriorTarget {
+  name = 'Logistic Regression';
+  labels = { x: 'Intercept α', y: 'Slope β' };
+  readonly format = 'x, y (y is 0 or 1)';
+  readonly priorMean = { x: 0, y: 0 };
+  readonly priorCovariance = { xx: 2.5 * 2.5, xy: 0, yy: 2.5 * 2.5 };
+
+  private z: number[];
+  private y: number[];
+
+  constructor(csv: string = CHALLENGER_CSV) {
+    super(csv);
+    const { rows } = parseCSV(csv, 2);
+    if (rows.length < 2) throw new DatasetError('Need at least 2 rows');
+    const bad = rows.findIndex(r => r[1] !== 0 && r[1] !== 1);
+    if (bad >= 0) throw new DatasetError(`Outcome ${rows[bad][1]} is not 0 or 1`);
+    const x = rows.map(r => r[0]);
+    const meanX = columnMean(x);
+    const sdX = columnSD(x);
+    if (!(sdX > 0)) throw new DatasetError('The x column is constant');
+    this.z = x.map(v => (v - meanX) / sdX);
+    this.y = rows.map(r => r[1]);
+    this.fit({ x: 0, y: 0 });
+  }
+
+  // Σ y η - log(1 + e^η), with log(1 + e^η) computed as a stable log-sum-exp
+  logLikelihoodDual(alpha: Dual, beta: Dual): Dual {
+    const zero = new Dual(0);
+    let sum = zero;
+    this.z.forEach((z, i) => {
+      const eta = alpha.add(beta.mul(z));
+      sum = sum.add(eta.mul(this.y[i])).sub(Dual.logSumExp([zero, eta]));
+    });
+    return sum;
+  }
+
+  logPriorDual(alpha: Dual, beta: Dual): Dual {
+    return alpha.square().add(beta.square()).div(-2 * 2.5 * 2.5);
+  }
+
+  withData(csv: string): LogisticRegressionPosterior {
+    return new LogisticRegressionPosterior(csv);
+  }
+}
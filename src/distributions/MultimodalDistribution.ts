@@ -1,11 +1,28 @@
 import { Distribution } from './Distribution';
-import type { Vector2 } from '../core/utils';
+import type { Matrix2, Vector2 } from '../core/utils';
 
-interface GaussianComponent {
+export interface MixtureComponent {
   mean: Vector2;
-  variance: number;
+  covariance: Matrix2;
+  weight: number;  // Relative weight; normalized over all components
 }
 
+// Weights proportional to the variances give the three peaks equal height
+export const DEFAULT_MIXTURE: MixtureComponent[] = [
+  { mean: { x: -1.5, y: -1.5 }, covariance: { xx: 0.8, xy: 0, yy: 0.8 }, weight: 0.8 },
+  { mean: { x: 1.5, y: 1.5 }, covariance: { xx: 0.8, xy: 0, yy: 0.8 }, weight: 0.8 },
+  { mean: { x: -2, y: 2 }, covariance: { xx: 0.5, xy: 0, yy: 0.5 }, weight: 0.5 },
+];
+
+// Precomputed per-component terms for fast evaluation
+interface PreparedComponent {
+  mean: Vector2;
+  inv: Matrix2;         // Σ⁻¹
+  logNorm: number;      // log(w / (2π √det Σ))
+}
+
+// Gaussian mixture with full covariances. Instances are immutable: editing a
+// component (see MixtureEditor) creates a new distribution from the edited list.
 export class MultimodalDistribution extends Distribution {
   name = 'Multimodal';
   bounds = {
@@ -15,51 +32,137 @@ export class MultimodalDistribution extends Distribution {
     yMax: 6
   };
 
-  private components: GaussianComponent[] = [
-    { mean: { x: -1.5, y: -1.5 }, variance: 0.8 },
-    { mean: { x: 1.5, y: 1.5 }, variance: 0.8 },
-    { mean: { x: -2, y: 2 }, variance: 0.5 },
-  ];
+  readonly components: MixtureComponent[];
+  private prepared: PreparedComponent[];
+
+  constructor(components: MixtureComponent[] = DEFAULT_MIXTURE) {
+    super();
+    this.components = components.map(c => ({
+      mean: { ...c.mean },
+      covariance: { ...c.covariance },
+      weight: c.weight,
+    }));
+
+    const totalWeight = this.components.reduce((sum, c) => sum + c.weight, 0) || 1;
+    this.prepared = this.components.map(c => {
+      const { xx, xy, yy } = c.covariance;
+      const det = xx * yy - xy * xy;
+      return {
+        mean: c.mean,
+        inv: { xx: yy / det, xy: -xy / det, yy: xx / det },
+        logNorm: Math.log(c.weight / totalWeight) - Math.log(2 * Math.PI * Math.sqrt(det)),
+      };
+    });
+  }
+
+  // Log density of each component at the point (including its weight)
+  private componentLogDensities(point: Vector2): number[] {
+    return this.prepared.map(c => {
+      const dx = point.x - c.mean.x;
+      const dy = point.y - c.mean.y;
+      const quad = c.inv.xx * dx * dx + 2 * c.inv.xy * dx * dy + c.inv.yy * dy * dy;
+      return c.logNorm - 0.5 * quad;
+    });
+  }
 
   density(point: Vector2): number {
     let total = 0;
-    for (const comp of this.components) {
-      const dx = point.x - comp.mean.x;
-      const dy = point.y - comp.mean.y;
-      total += Math.exp(-(dx * dx + dy * dy) / (2 * comp.variance));
+    for (const logP of this.componentLogDensities(point)) {
+      total += Math.exp(logP);
     }
     return total;
   }
 
+  logDensity(point: Vector2): number {
+    const logPs = this.componentLogDensities(point);
+    if (logPs.length === 0) return -Infinity;
+    const max = Math.max(...logPs);
+    let sum = 0;
+    for (const logP of logPs) sum += Math.exp(logP - max);
+    return max + Math.log(sum);
+  }
+
   gradient(point: Vector2): Vector2 {
     // Compute gradient of log density
-    // log(sum(p_i)) -> gradient = sum(p_i * grad_log_p_i) / sum(p_i)
-    const densities: number[] = [];
-    const gradients: Vector2[] = [];
-
-    for (const comp of this.components) {
-      const dx = point.x - comp.mean.x;
-      const dy = point.y - comp.mean.y;
-      const p = Math.exp(-(dx * dx + dy * dy) / (2 * comp.variance));
-      densities.push(p);
-      // Gradient of log density for single Gaussian: -1/variance * (x - mu)
-      gradients.push({
-        x: -dx / comp.variance,
-        y: -dy / comp.variance,
-      });
-    }
-
-    const totalDensity = densities.reduce((a, b) => a + b, 0);
-    if (totalDensity === 0) return { x: 0, y: 0 };
+    // log(Σ p_i) -> gradient = Σ r_i ∇log p_i with responsibilities r_i = p_i / Σ p_j,
+    // and ∇log p_i = -Σ_i⁻¹ (x - μ_i) for a Gaussian component
+    const logPs = this.componentLogDensities(point);
+    if (logPs.length === 0) return { x: 0, y: 0 };
+    const max = Math.max(...logPs);
+    const weights = logPs.map(logP => Math.exp(logP - max));
+    const total = weights.reduce((a, b) => a + b, 0);
 
     let gx = 0;
     let gy = 0;
-    for (let i = 0; i < this.components.length; i++) {
-      const weight = densities[i] / totalDensity;
-      gx += weight * gradients[i].x;
-      gy += weight * gradients[i].y;
-    }
+    this.prepared.forEach((c, i) => {
+      const r = weights[i] / total;
+      const dx = point.x - c.mean.x;
+      const dy = point.y - c.mean.y;
+      gx -= r * (c.inv.xx * dx + c.inv.xy * dy);
+      gy -= r * (c.inv.xy * dx + c.inv.yy * dy);
+    });
 
     return { x: gx, y: gy };
   }
+
+  // Analytical moments and marginals (each marginal is a 1D Gaussian mixture)
+  mean(): Vector2 {
+    const totalWeight = this.components.reduce((sum, c) => sum + c.weight, 0) || 1;
+    return this.components.reduce(
+      (acc, c) => ({
+        x: acc.x + (c.weight / totalWeight) * c.mean.x,
+        y: acc.y + (c.weight / totalWeight) * c.mean.y,
+      }),
+      { x: 0, y: 0 }
+    );
+  }
+
+  marginalX(x: number): number {
+    return this.marginal(x, c => c.mean.x, c => c.covariance.xx);
+  }
+
+  marginalY(y: number): number {
+    return this.marginal(y, c => c.mean.y, c => c.covariance.yy);
+  }
+
+  private marginal(
+    v: number,
+    mean: (c: MixtureComponent) => number,
+    variance: (c: MixtureComponent) => number
+  ): number {
+    const totalWeight = this.components.reduce((sum, c) => sum + c.weight, 0) || 1;
+    let sum = 0;
+    for (const c of this.components) {
+      const d = v - mean(c);
+      const s2 = variance(c);
+      sum += (c.weight / totalWeight) * Math.exp(-(d * d) / (2 * s2)) / Math.sqrt(2 * Math.PI * s2);
+    }
+    return sum;
+  }
+}
+
+// Covariance from principal axes: standard deviations along the major and minor
+// axes and the major axis angle. Σ = R diag(major², minor²) Rᵀ
+export function covarianceFromAxes(major: number, minor: number, angle: number): Matrix2 {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const a = major * major;
+  const b = minor * minor;
+  return {
+    xx: a * c * c + b * s * s,
+    xy: (a - b) * c * s,
+    yy: a * s * s + b * c * c,
+  };
+}
+
+// Principal axes of a covariance (inverse of covarianceFromAxes)
+export function axesFromCovariance(cov: Matrix2): { major: number; minor: number; angle: number } {
+  const { xx, xy, yy } = cov;
+  const mid = (xx + yy) / 2;
+  const diff = Math.sqrt(((xx - yy) / 2) ** 2 + xy * xy);
+  return {
+    major: Math.sqrt(Math.max(mid + diff, 0)),
+    minor: Math.sqrt(Math.max(mid - diff, 0)),
+    angle: 0.5 * Math.atan2(2 * xy, xx - yy),
+  };
 }
@@ -0,0 +1,43 @@
+import { PosteriorDistribution } from './PosteriorDistribution';
+import { SLEEP_CSV, DatasetError, parseCSV, columnMean, columnSD } from './datasets';
+import { Dual } from '../core/autodiff';
+import type { GaussianPriorTarget } from './GaussianPrior';
+
+// Posterior of a normal model y ~ N(μ, σ²) over the mean and log σ, with vague
+// priors μ ~ N(0, 100²) and log σ ~ N(0, 5²)
+export class NormalPosterior extends PosteriorDistribution implements GaussianPriorTarget {
+  name = 'Normal Model';
+  labels = { x: 'Mean μ', y: 'log σ' };
+  readonly format = 'one value per row';
+  readonly priorMean = { x: 0, y: 0 };
+  readonly priorCovariance = { xx: 100 * 100, xy: 0, yy: 5 * 5 };
+
+  private values: number[];
+
+  constructor(csv: string = SLEEP_CSV) {
+    super(csv);
+    const { rows } = parseCSV(csv, 1);
+    if (rows.length < 2) throw new DatasetError('Need at least 2 values');
+    this.values = rows.map(r => r[0]);
+    const sd = columnSD(this.values);
+    if (!(sd > 0)) throw new DatasetError('All values are equal');
+    this.fit({ x: columnMean(this.values), y: Math.log(sd) });
+  }
+
+  // Σ -log σ - (y - μ)² / (2σ²)
+  logLikelihoodDual(mu: Dual, logSigma: Dual): Dual {
+    let ss = new Dual(0);
+    for (const v of this.values) {
+      ss = ss.add(mu.sub(v).square());
+    }
+    return logSigma.mul(-this.values.length).sub(ss.mul(logSigma.mul(-2).exp()).mul(0.5));
+  }
+
+  logPriorDual(mu: Dual, logSigma: Dual): Dual {
+    return mu.square().div(-2 * 100 * 100).sub(logSigma.square().div(2 * 5 * 5));
+  }
+
+  withData(csv: string): NormalPosterior {
+    return new NormalPosterior(csv);
+  }
+}
@@ -0,0 +1,101 @@
+import type { Bounds } from './Distribution';
+import { DifferentiableDistribution } from './DifferentiableDistribution';
+import { DatasetError } from './datasets';
+import type { Vector2 } from '../core/utils';
+import { Dual } from '../core/autodiff';
+
+// Bayesian posterior over two model parameters: log-likelihood of a dataset plus
+// log-prior. Subclasses parse their data, then call fit() to place the bounds.
+export abstract class PosteriorDistribution extends DifferentiableDistribution {
+  bounds: Bounds = { xMin: -1, xMax: 1, yMin: -1, yMax: 1 };
+
+  readonly csv: string;
+  // Expected CSV layout, shown next to the data in the control panel
+  abstract readonly format: string;
+  // Log posterior at the mode; subtracted so exp() stays in range
+  private logOffset: number = 0;
+
+  constructor(csv: string) {
+    super();
+    this.csv = csv;
+  }
+
+  abstract logLikelihoodDual(a: Dual, b: Dual): Dual;
+  abstract logPriorDual(a: Dual, b: Dual): Dual;
+
+  // Same model with other data; throws a DatasetError if the data do not fit the model
+  abstract withData(csv: string): PosteriorDistribution;
+
+  // Log-likelihood alone, for samplers that treat the prior separately
+  logLikelihood(point: Vector2): number {
+    return this.logLikelihoodDual(new Dual(point.x), new Dual(point.y)).value;
+  }
+
+  logDensityDual(a: Dual, b: Dual): Dual {
+    return this.logLikelihoodDual(a, b).add(this.logPriorDual(a, b)).sub(this.logOffset);
+  }
+
+  // Find the posterior mode by damped Newton iterations and frame it with
+  // ±width standard deviations of the Laplace approximation
+  protected fit(start: Vector2, width: number = 5): void {
+    let point = { ...start };
+    let logP = this.logDensity(point);
+    let hessian = this.hessian(point);
+
+    for (let iter = 0; iter < 100; iter++) {
+      const g = this.gradient(point);
+      const { xx, xy, yy } = hessian;
+      const det = xx * yy - xy * xy;
+      // Newton direction -H⁻¹g where the Hessian is negative definite, gradient ascent otherwise
+      const step = xx < 0 && det > 0
+        ? { x: -(yy * g.x - xy * g.y) / det, y: -(-xy * g.x + xx * g.y) / det }
+        : { x: g.x, y: g.y };
+
+      // Halve the step until the log density increases
+      let t = 1;
+      let next = { x: point.x + step.x, y: point.y + step.y };
+      let nextLogP = this.logDensity(next);
+      while (!(nextLogP >= logP) && t > 1e-10) {
+        t /= 2;
+        next = { x: point.x + t * step.x, y: point.y + t * step.y };
+        nextLogP = this.logDensity(next);
+      }
+      if (!(nextLogP >= logP)) break;
+
+      const moved = Math.hypot(next.x - point.x, next.y - point.y);
+      point = next;
+      logP = nextLogP;
+      hessian = this.hessian(point);
+      if (moved < 1e-9 * (1 + Math.hypot(point.x, point.y))) break;
+    }
+
+    const { xx, xy, yy } = hessian;
+    const det = xx * yy - xy * xy;
+    if (!isFinite(logP) || !(xx < 0 && det > 0)) {
+      throw new DatasetError('The posterior has no well-defined mode for these data');
+    }
+    // Marginal variances are the diagonal of -H⁻¹
+    const sdX = Math.sqrt(-yy / det);
+    const sdY = Math.sqrt(-xx / det);
+    this.bounds = {
+      xMin: point.x - width * sdX,
+      xMax: point.x + width * sdX,
+      yMin: point.y - width * sdY,
+      yMax: point.y + width * sdY,
+    };
+    this.logOffset += logP;
+  }
+
+  // Hessian of the log density by central differences of the exact gradient
+  private hessian(point: Vector2, h: number = 1e-5): { xx: number; xy: number; yy: number } {
+    const gx1 = this.gradient({ x: point.x + h, y: point.y });
+    const gx2 = this.gradient({ x: point.x - h, y: point.y });
+    const gy1 = this.gradient({ x: point.x, y: point.y + h });
+    const gy2 = this.gradient({ x: point.x, y: point.y - h });
+    return {
+      xx: (gx1.x - gx2.x) / (2 * h),
+      xy: ((gx1.y - gx2.y) + (gy1.x - gy2.x)) / (4 * h),
+      yy: (gy1.y - gy2.y) / (2 * h),
+    };
+  }
+}
@@ -1,7 +1,7 @@
-import { Distribution } from './Distribution';
-import type { Vector2 } from '../core/utils';
+import { DifferentiableDistribution } from './DifferentiableDistribution';
+import type { Dual } from '../core/autodiff';
 
-export class RastriginDistribution extends Distribution {
+export class RastriginDistribution extends DifferentiableDistribution {
   name = 'Rastrigin';
   bounds = {
     xMin: -5,
@@ -19,13 +19,12 @@ export class RastriginDistribution extends Distribution {
     this.scale = scale; // Temperature-like parameter to control peak sharpness
   }
 
-  density(point: Vector2): number {
-    const { x, y } = point;
+  logDensityDual(x: Dual, y: Dual): Dual {
     // Rastrigin function: f(x,y) = 2A + (x² - A*cos(2πx)) + (y² - A*cos(2πy))
     // Convert to density: p(x,y) ∝ exp(-scale * f(x,y))
-    const f = 2 * this.A +
-      (x * x - this.A * Math.cos(2 * Math.PI * x)) +
-      (y * y - this.A * Math.cos(2 * Math.PI * y));
-    return Math.exp(-this.scale * f);
+    const f = x.square().sub(x.mul(2 * Math.PI).cos().mul(this.A))
+      .add(y.square().sub(y.mul(2 * Math.PI).cos().mul(this.A)))
+      .add(2 * this.A);
+    return f.mul(-this.scale);
   }
 }
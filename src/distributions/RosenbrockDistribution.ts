@@ -1,7 +1,7 @@
-import { Distribution } from './Distribution';
-import type { Vector2 } from '../core/utils';
+import { DifferentiableDistribution } from './DifferentiableDistribution';
+import type { Dual } from '../core/autodiff';
 
-export class RosenbrockDistribution extends Distribution {
+export class RosenbrockDistribution extends DifferentiableDistribution {
   name = 'Rosenbrock';
   bounds = {
     xMin: -3,
@@ -21,11 +21,10 @@ export class RosenbrockDistribution extends Distribution {
     this.scale = scale;
   }
 
-  density(point: Vector2): number {
-    const { x, y } = point;
+  logDensityDual(x: Dual, y: Dual): Dual {
     // Rosenbrock function: f(x,y) = (a-x)² + b(y-x²)²
     // Global minimum at (a, a²)
-    const f = (this.a - x) ** 2 + this.b * (y - x * x) ** 2;
-    return Math.exp(-this.scale * f);
+    const f = x.neg().add(this.a).square().add(y.sub(x.square()).square().mul(this.b));
+    return f.mul(-this.scale);
   }
 }
@@ -0,0 +1,61 @@
+import { Distribution } from './Distribution';
+import { logGamma, type Vector2 } from '../core/utils';
+
+// Isotropic bivariate Student-t with ν degrees of freedom. The polynomial tails
+// send chains on long excursions where the gradient nearly vanishes, and the
+// sharp core needs much smaller steps than the tails.
+export class StudentTDistribution extends Distribution {
+  name = 'Student-t';
+  bounds = {
+    xMin: -8,
+    xMax: 8,
+    yMin: -8,
+    yMax: 8
+  };
+
+  nu: number;
+
+  constructor(nu: number = 3) {
+    super();
+    this.nu = nu;
+  }
+
+  density(point: Vector2): number {
+    return Math.exp(this.logDensity(point));
+  }
+
+  logDensity(point: Vector2): number {
+    const { x, y } = point;
+    const nu = this.nu;
+    return -0.5 * (nu + 2) * Math.log(1 + (x * x + y * y) / nu);
+  }
+
+  gradient(point: Vector2): Vector2 {
+    const { x, y } = point;
+    const nu = this.nu;
+    const factor = -(nu + 2) / (nu + x * x + y * y);
+    return {
+      x: factor * x,
+      y: factor * y
+    };
+  }
+
+  mean(): Vector2 {
+    return { x: 0, y: 0 };
+  }
+
+  // Each marginal is a univariate Student-t with the same ν
+  marginalX(x: number): number {
+    return this.marginal(x);
+  }
+
+  marginalY(y: number): number {
+    return this.marginal(y);
+  }
+
+  private marginal(v: number): number {
+    const nu = this.nu;
+    const logNorm = logGamma((nu + 1) / 2) - logGamma(nu / 2) - 0.5 * Math.log(nu * Math.PI);
+    return Math.exp(logNorm - 0.5 * (nu + 1) * Math.log(1 + (v * v) / nu));
+  }
+}
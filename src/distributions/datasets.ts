@@ -0,0 +1,116 @@
+// Small bundled datasets for the posterior targets, as CSV text so they go through
+// the same parser as user-supplied data
+
+// Anscombe's quartet, first set (Anscombe, 1973): predictor x, outcome y
+export const ANSCOMBE_CSV = `x,y
+10,8.04
+8,6.95
+13,7.58
+9,8.81
+11,8.33
+14,9.96
+6,7.24
+4,4.26
+12,10.84
+7,4.82
+5,5.68`;
+
+// Space Shuttle launches before Challenger (Dalal et al., 1989): launch temperature
+// in °F and whether any O-ring showed thermal distress
+export const CHALLENGER_CSV = `temperature,damage
+66,0
+70,1
+69,0
+68,0
+67,0
+72,0
+73,0
+70,0
+57,1
+63,1
+70,1
+78,0
+67,0
+53,1
+67,0
+75,0
+70,0
+81,0
+76,0
+79,0
+75,1
+76,0
+58,1`;
+
+// Student's sleep data (Cushny & Peebles, 1905): extra hours of sleep with
+// hyoscine over hyoscyamine for ten patients
+export const SLEEP_CSV = `extra
+1.2
+2.4
+1.3
+1.3
+0.0
+1.0
+1.8
+0.8
+4.6
+1.4`;
+
+// Invalid or unsuitable data; the message is shown in the control panel
+export class DatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatasetError';
+  }
+}
+
+export interface Dataset {
+  header: string[] | null;
+  rows: number[][];
+}
+
+// Parse numeric CSV. Rows are separated by newlines or ';', fields by commas, tabs
+// or spaces. A first row that is not numeric is taken as the header.
+export function parseCSV(text: string, columns: number): Dataset {
+  const lines = text
+    .split(/[\r\n;]+/)
+    .map(line => line.trim())
+    .filter(line => line !== '');
+  if (lines.length === 0) throw new DatasetError('No data');
+
+  const split = (line: string) => line.split(/\s*[,\t]\s*|\s+/);
+  let header: string[] | null = null;
+  const first = split(lines[0]);
+  if (first.some(field => field === '' || isNaN(Number(field)))) {
+    header = first;
+    lines.shift();
+  }
+
+  const rows = lines.map((line, i) => {
+    const fields = split(line);
+    const lineNumber = i + (header ? 2 : 1);
+    if (fields.length !== columns) {
+      throw new DatasetError(
+        `Row ${lineNumber} has ${fields.length} column${fields.length === 1 ? '' : 's'}, expected ${columns}`
+      );
+    }
+    return fields.map(field => {
+      const value = Number(field);
+      if (field === '' || !isFinite(value)) {
+        throw new DatasetError(`Row ${lineNumber}: '${field}' is not a number`);
+      }
+      return value;
+    });
+  });
+  return { header, rows };
+}
+
+export function columnMean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+export function columnSD(values: number[]): number {
+  const mean = columnMean(values);
+  const ss = values.reduce((sum, v) => sum + (v - mean) ** 2, 0);
+  return Math.sqrt(ss / (values.length - 1));
+}
@@ -0,0 +1,78 @@
+import { StandardGaussian } from './StandardGaussian';
+import { QuarticGaussian } from './QuarticGaussian';
+import { DonutDistribution } from './DonutDistribution';
+import { BimodalDistribution } from './BimodalDistribution';
+import { BananaDistribution } from './BananaDistribution';
+import { RastriginDistribution } from './RastriginDistribution';
+import { RosenbrockDistribution } from './RosenbrockDistribution';
+import { AckleyDistribution } from './AckleyDistribution';
+import { SquiggleDistribution } from './SquiggleDistribution';
+import { MultimodalDistribution } from './MultimodalDistribution';
+import { FunnelDistribution } from './FunnelDistribution';
+import { CorrelatedGaussian } from './CorrelatedGaussian';
+import { StudentTDistribution } from './StudentTDistribution';
+import { EightSchoolsDistribution } from './EightSchoolsDistribution';
+import { LinearRegressionPosterior } from './LinearRegressionPosterior';
+import { LogisticRegressionPosterior } from './LogisticRegressionPosterior';
+import { NormalPosterior } from './NormalPosterior';
+import { GPClassificationDistribution } from './GPClassificationDistribution';
+import { CustomDistribution } from './CustomDistribution';
+import type { Distribution } from './Distribution';
+
+export type DistributionType =
+  | 'gaussian'
+  | 'quartic'
+  | 'donut'
+  | 'bimodal'
+  | 'banana'
+  | 'rastrigin'
+  | 'rosenbrock'
+  | 'ackley'
+  | 'squiggle'
+  | 'multimodal'
+  | 'funnel'
+  | 'correlated'
+  | 'studentt'
+  | 'eightschools'
+  | 'linreg'
+  | 'logreg'
+  | 'normal'
+  | 'gpc'
+  | 'custom';
+
+export interface DistributionConfig {
+  key: DistributionType;
+  name: string;
+  create: () => Distribution;
+}
+
+// Presets shared by the control panel and the headless runner
+export const DISTRIBUTIONS: DistributionConfig[] = [
+  { key: 'gaussian', name: 'Standard Gaussian', create: () => new StandardGaussian() },
+  { key: 'quartic', name: 'Quartic Gaussian', create: () => new QuarticGaussian() },
+  { key: 'donut', name: 'Donut', create: () => new DonutDistribution(2, 0.4) },
+  { key: 'bimodal', name: 'Bimodal', create: () => new BimodalDistribution(3, 0.8) },
+  { key: 'banana', name: 'Banana', create: () => new BananaDistribution(1, 1) },
+  { key: 'rastrigin', name: 'Rastrigin', create: () => new RastriginDistribution(10, 0.1) },
+  { key: 'rosenbrock', name: 'Rosenbrock', create: () => new RosenbrockDistribution(1, 100, 0.02) },
+  { key: 'ackley', name: 'Ackley', create: () => new AckleyDistribution(20, 0.2, 2 * Math.PI, 0.3) },
+  { key: 'squiggle', name: 'Squiggle', create: () => new SquiggleDistribution(5) },
+  { key: 'multimodal', name: 'Multimodal', create: () => new MultimodalDistribution() },
+  { key: 'funnel', name: "Neal's Funnel", create: () => new FunnelDistribution(3) },
+  { key: 'correlated', name: 'Correlated Gaussian', create: () => new CorrelatedGaussian(0.95) },
+  { key: 'studentt', name: 'Student-t', create: () => new StudentTDistribution(3) },
+  { key: 'eightschools', name: 'Eight Schools', create: () => new EightSchoolsDistribution() },
+  { key: 'linreg', name: 'Linear Regression', create: () => new LinearRegressionPosterior() },
+  { key: 'logreg', name: 'Logistic Regression', create: () => new LogisticRegressionPosterior() },
+  { key: 'normal', name: 'Normal Model', create: () => new NormalPosterior() },
+  { key: 'gpc', name: 'GP Classification', create: () => new GPClassificationDistribution(0.9) },
+  { key: 'custom', name: 'Custom', create: () => new CustomDistribution() },
+];
+
+export function createDistribution(key: DistributionType): Distribution {
+  const config = DISTRIBUTIONS.find(d => d.key === key);
+  if (!config) throw new Error(`Unknown distribution: ${key}`);
+  return config.create();
+}
+
+export type { Distribution } from './Distribution';